@@ -0,0 +1,110 @@
+// Copyright (c) 2024 Mikołaj Kuranowski
+// SPDX-License-Identifier: MIT
+
+// Deno has no DOM - SGRToElementSink and SGRLogViewer are tested and benchmarked against
+// a minimal stand-in, installed in the global scope when this module is imported.
+// Only the parts of the DOM used by sgrp are implemented. The layout is fixed:
+// every row is fakeLayout.rowHeight pixels tall, and scrollTop is clamped
+// to the height of the content.
+
+export const fakeLayout = { rowHeight: 20, measurements: 0 };
+
+export class FakeNode {
+    childNodes: FakeNode[] = [];
+    parentNode: FakeNode | null = null;
+
+    get textContent(): string {
+        return this.childNodes.map((child) => child.textContent).join("");
+    }
+
+    set textContent(text: string) {
+        this.replaceChildren(new FakeText(text));
+    }
+
+    get lastChild(): FakeNode | null {
+        return this.childNodes.at(-1) ?? null;
+    }
+
+    appendChild<T extends FakeNode>(node: T): T {
+        const children = node instanceof FakeFragment ? node.childNodes : [node];
+        for (const child of children) {
+            child.parentNode = this;
+            this.childNodes.push(child);
+        }
+        if (node instanceof FakeFragment) node.childNodes = [];
+        return node;
+    }
+
+    replaceChildren(...nodes: FakeNode[]): void {
+        this.childNodes = [];
+        for (const node of nodes) this.appendChild(node);
+    }
+
+    remove(): void {
+        if (this.parentNode === null) return;
+        this.parentNode.childNodes = this.parentNode.childNodes.filter((c) => c !== this);
+        this.parentNode = null;
+    }
+}
+
+export class FakeText extends FakeNode {
+    constructor(public data: string) {
+        super();
+    }
+
+    override get textContent(): string {
+        return this.data;
+    }
+
+    appendData(data: string): void {
+        this.data += data;
+    }
+}
+
+export class FakeElement extends FakeNode {
+    style: Record<string, string> = {};
+    className = "";
+    id = "";
+    href = "";
+    rel = "";
+    target = "";
+    clientHeight = 100;
+    listeners: Map<string, () => void> = new Map();
+    #scrollTop = 0;
+
+    constructor(public tagName: string) {
+        super();
+    }
+
+    get scrollTop(): number {
+        return this.#scrollTop;
+    }
+
+    set scrollTop(v: number) {
+        const content = parseFloat((this.childNodes[0] as FakeElement)?.style.height) || 0;
+        this.#scrollTop = Math.min(Math.max(v, 0), Math.max(content - this.clientHeight, 0));
+    }
+
+    addEventListener(type: string, listener: () => void): void {
+        this.listeners.set(type, listener);
+    }
+
+    removeEventListener(type: string, listener: () => void): void {
+        if (this.listeners.get(type) === listener) this.listeners.delete(type);
+    }
+
+    getBoundingClientRect(): { height: number } {
+        ++fakeLayout.measurements;
+        return { height: fakeLayout.rowHeight };
+    }
+}
+
+export class FakeFragment extends FakeNode {}
+
+Object.assign(globalThis, {
+    Text: FakeText,
+    document: {
+        createElement: (tagName: string) => new FakeElement(tagName),
+        createDocumentFragment: () => new FakeFragment(),
+    },
+});
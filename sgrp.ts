@@ -50,6 +50,16 @@ const escapeControlHtml = (x: string) =>
 
 const escapeHtml = (x: string) => x.replaceAll(/[<>&'"]/g, (c) => escapes[c]);
 
+const isCsiParameterByte = (c: number) => c >= 0x30 && c <= 0x3F;
+
+const isCsiIntermediateByte = (c: number) => c >= 0x20 && c <= 0x2F;
+
+const isCsiFinalByte = (c: number) => c >= 0x40 && c <= 0x7E;
+
+const isC1Introducer = (c: number) => c === 0x90 || c === 0x98 || (c >= 0x9B && c <= 0x9F);
+
+const isHighSurrogate = (c: number) => c >= 0xD800 && c <= 0xDBFF;
+
 const isU8Number = (x: number) => x >= 0 && x <= 255 && Number.isSafeInteger(x);
 
 /**
@@ -84,13 +94,37 @@ export interface Colors {
  * The "standard" colors are used by SGR parameters 30 to 37 and 40 to 47, while
  * "bright" colors are used by SGR parameters 90 to 97 and 100 to 107.
  *
+ * "foreground" and "background" are the default colors of text. They are used for
+ * inverse (SGR 7) text without an explicit color, and by {@link containerAttributes}
+ * and {@link styleContainer} to style the element containing the output.
+ *
+ * "indexed", if present, overrides entries of the 256-color table (used by SGR parameters
+ * 38;5;n and 48;5;n), by their index. This includes entries 0-15, which take precedence
+ * over the standard and bright colors. Entries which are not overridden follow xterm:
+ * a 6x6x6 color cube with levels 0, 95, 135, 175, 215 and 255 (16-231), and a gray-scale
+ * ramp from rgb(8,8,8) to rgb(238,238,238) in steps of 10 (232-255).
+ *
+ * Every color must be a hex color (`#rgb`, `#rgba`, `#rrggbb` or `#rrggbbaa`),
+ * a `rgb()` or `rgba()` function with components being either all numbers from 0 to 255
+ * or all percentages, a `hsl()` or `hsla()` function with a hue and percentages, a named color
+ * (including `transparent` and `currentColor`) or a `var(--name)` reference, optionally
+ * with one of those as a fallback. The optional alpha must be a number from 0 to 1
+ * or a percentage. Any other value causes a SyntaxError to be thrown
+ * when the palette is used.
+ *
  * @typedef {object} Palette
  * @property {Colors} standard
  * @property {Colors} bright
+ * @property {string} foreground
+ * @property {string} background
+ * @property {Readonly<Record<number, string>>} [indexed]
  */
 export interface Palette {
     standard: Colors;
     bright: Colors;
+    foreground: string;
+    background: string;
+    indexed?: Readonly<Record<number, string>>;
 }
 
 /**
@@ -99,10 +133,16 @@ export interface Palette {
  * @typedef {object} PartialPalette
  * @property {Partial<Colors>} [standard]
  * @property {Partial<Colors>} [bright]
+ * @property {string} [foreground]
+ * @property {string} [background]
+ * @property {Readonly<Record<number, string>>} [indexed]
  */
 export interface PartialPalette {
     standard?: Partial<Colors>;
     bright?: Partial<Colors>;
+    foreground?: string;
+    background?: string;
+    indexed?: Readonly<Record<number, string>>;
 }
 
 function resolveColors(a: Partial<Colors> | undefined, b: Colors): Colors {
@@ -118,11 +158,365 @@ function resolveColors(a: Partial<Colors> | undefined, b: Colors): Colors {
     };
 }
 
+/**
+ * resolvePalette fills colors missing from a {@link PartialPalette} with colors from
+ * another palette, and validates the result.
+ *
+ * @throws {SyntaxError} if any of the colors is not a valid CSS color
+ */
 function resolvePalette(a: PartialPalette | undefined, b: Palette = defaultPalette): Palette {
-    return {
+    const palette: Palette = {
         standard: resolveColors(a?.standard, b.standard),
         bright: resolveColors(a?.bright, b.bright),
+        foreground: a?.foreground ?? b.foreground,
+        background: a?.background ?? b.background,
+    };
+    if (a?.indexed !== undefined || b.indexed !== undefined) {
+        palette.indexed = { ...b.indexed, ...a?.indexed };
+    }
+    validatePalette(palette);
+    return palette;
+}
+
+function validatePalette(palette: Palette): void {
+    for (const name of colorNames) {
+        validateColor(palette.standard[name], `palette.standard.${name}`);
+        validateColor(palette.bright[name], `palette.bright.${name}`);
+    }
+    validateColor(palette.foreground, "palette.foreground");
+    validateColor(palette.background, "palette.background");
+    for (const [index, color] of Object.entries(palette.indexed ?? {})) {
+        if (!/^\d+$/.test(index) || !isU8Number(Number(index))) {
+            throw new SyntaxError(`[sgrp] Invalid palette index: ${JSON.stringify(index)}`);
+        }
+        validateColor(color, `palette.indexed[${index}]`);
+    }
+}
+
+function validateColor(color: unknown, name: string): void {
+    if (typeof color !== "string" || !isCssColor(color)) {
+        throw new SyntaxError(`[sgrp] Invalid CSS color in ${name}: ${JSON.stringify(color)}`);
+    }
+}
+
+/**
+ * resolveClassPrefix returns the {@link Options.classPrefix}, which is also used
+ * in CSS selectors and custom property names, and thus must be a CSS identifier.
+ *
+ * @throws {SyntaxError} if the prefix is not a valid CSS identifier
+ */
+function resolveClassPrefix(options: Options): string {
+    const prefix = options.classPrefix ?? "sgrp-";
+    if (!/^(?:[A-Za-z_-][\w-]*)?$/.test(prefix)) {
+        throw new SyntaxError(`[sgrp] Invalid classPrefix: ${JSON.stringify(prefix)}`);
+    }
+    return prefix;
+}
+
+const cssNumber = /^(?:\d+(?:\.\d*)?|\.\d+)$/;
+const cssPercentage = /^(?:\d+(?:\.\d*)?|\.\d+)%$/;
+const cssHue = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:deg|g?rad|turn)?$/;
+
+const isCssNumberUpTo = (x: string, max: number) => cssNumber.test(x) && parseFloat(x) <= max;
+const isCssPercentage = (x: string) => cssPercentage.test(x) && parseFloat(x) <= 100;
+
+/**
+ * parseCssColorFunction splits a rgb(), rgba(), hsl() or hsla() CSS function, in either
+ * the legacy (comma-separated) or the modern (space-separated) syntax, into its name
+ * and arguments. Returns null if the function doesn't strictly follow the syntax:
+ * rgb() components must be either all numbers from 0 to 255 or all percentages,
+ * hsl() saturation and lightness must be percentages and alpha must be a number from 0 to 1
+ * or a percentage.
+ */
+function parseCssColorFunction(color: string): [string, string[]] | null {
+    const m = color.toLowerCase().match(/^(rgba?|hsla?)\(\s*([^()]*?)\s*\)$/);
+    if (m === null) return null;
+
+    let args: string[];
+    let alpha: string | undefined;
+    if (m[2].includes(",")) {
+        args = m[2].split(/\s*,\s*/);
+        if (args.length === 4) alpha = args.pop();
+    } else {
+        const parts = m[2].split(/\s*\/\s*/);
+        if (parts.length > 2) return null;
+        args = parts[0].split(/\s+/);
+        alpha = parts[1];
+    }
+
+    if (args.length !== 3) return null;
+    if (alpha !== undefined && !isCssNumberUpTo(alpha, 1) && !isCssPercentage(alpha)) return null;
+
+    const valid = m[1].startsWith("rgb")
+        ? args.every((x) => isCssNumberUpTo(x, 255)) || args.every(isCssPercentage)
+        : cssHue.test(args[0]) && isCssPercentage(args[1]) && isCssPercentage(args[2]);
+    return valid ? [m[1], args] : null;
+}
+
+const cssVariable = /^var\(\s*--[\w-]+\s*(?:,\s*(.*?)\s*)?\)$/is;
+
+/**
+ * cssNamedColors maps the named colors defined by CSS Color Module Level 4
+ * to their hex values.
+ */
+const cssNamedColors: ReadonlyMap<string, string> = new Map([
+    ["aliceblue", "#f0f8ff"],
+    ["antiquewhite", "#faebd7"],
+    ["aqua", "#00ffff"],
+    ["aquamarine", "#7fffd4"],
+    ["azure", "#f0ffff"],
+    ["beige", "#f5f5dc"],
+    ["bisque", "#ffe4c4"],
+    ["black", "#000000"],
+    ["blanchedalmond", "#ffebcd"],
+    ["blue", "#0000ff"],
+    ["blueviolet", "#8a2be2"],
+    ["brown", "#a52a2a"],
+    ["burlywood", "#deb887"],
+    ["cadetblue", "#5f9ea0"],
+    ["chartreuse", "#7fff00"],
+    ["chocolate", "#d2691e"],
+    ["coral", "#ff7f50"],
+    ["cornflowerblue", "#6495ed"],
+    ["cornsilk", "#fff8dc"],
+    ["crimson", "#dc143c"],
+    ["cyan", "#00ffff"],
+    ["darkblue", "#00008b"],
+    ["darkcyan", "#008b8b"],
+    ["darkgoldenrod", "#b8860b"],
+    ["darkgray", "#a9a9a9"],
+    ["darkgreen", "#006400"],
+    ["darkgrey", "#a9a9a9"],
+    ["darkkhaki", "#bdb76b"],
+    ["darkmagenta", "#8b008b"],
+    ["darkolivegreen", "#556b2f"],
+    ["darkorange", "#ff8c00"],
+    ["darkorchid", "#9932cc"],
+    ["darkred", "#8b0000"],
+    ["darksalmon", "#e9967a"],
+    ["darkseagreen", "#8fbc8f"],
+    ["darkslateblue", "#483d8b"],
+    ["darkslategray", "#2f4f4f"],
+    ["darkslategrey", "#2f4f4f"],
+    ["darkturquoise", "#00ced1"],
+    ["darkviolet", "#9400d3"],
+    ["deeppink", "#ff1493"],
+    ["deepskyblue", "#00bfff"],
+    ["dimgray", "#696969"],
+    ["dimgrey", "#696969"],
+    ["dodgerblue", "#1e90ff"],
+    ["firebrick", "#b22222"],
+    ["floralwhite", "#fffaf0"],
+    ["forestgreen", "#228b22"],
+    ["fuchsia", "#ff00ff"],
+    ["gainsboro", "#dcdcdc"],
+    ["ghostwhite", "#f8f8ff"],
+    ["gold", "#ffd700"],
+    ["goldenrod", "#daa520"],
+    ["gray", "#808080"],
+    ["green", "#008000"],
+    ["greenyellow", "#adff2f"],
+    ["grey", "#808080"],
+    ["honeydew", "#f0fff0"],
+    ["hotpink", "#ff69b4"],
+    ["indianred", "#cd5c5c"],
+    ["indigo", "#4b0082"],
+    ["ivory", "#fffff0"],
+    ["khaki", "#f0e68c"],
+    ["lavender", "#e6e6fa"],
+    ["lavenderblush", "#fff0f5"],
+    ["lawngreen", "#7cfc00"],
+    ["lemonchiffon", "#fffacd"],
+    ["lightblue", "#add8e6"],
+    ["lightcoral", "#f08080"],
+    ["lightcyan", "#e0ffff"],
+    ["lightgoldenrodyellow", "#fafad2"],
+    ["lightgray", "#d3d3d3"],
+    ["lightgreen", "#90ee90"],
+    ["lightgrey", "#d3d3d3"],
+    ["lightpink", "#ffb6c1"],
+    ["lightsalmon", "#ffa07a"],
+    ["lightseagreen", "#20b2aa"],
+    ["lightskyblue", "#87cefa"],
+    ["lightslategray", "#778899"],
+    ["lightslategrey", "#778899"],
+    ["lightsteelblue", "#b0c4de"],
+    ["lightyellow", "#ffffe0"],
+    ["lime", "#00ff00"],
+    ["limegreen", "#32cd32"],
+    ["linen", "#faf0e6"],
+    ["magenta", "#ff00ff"],
+    ["maroon", "#800000"],
+    ["mediumaquamarine", "#66cdaa"],
+    ["mediumblue", "#0000cd"],
+    ["mediumorchid", "#ba55d3"],
+    ["mediumpurple", "#9370db"],
+    ["mediumseagreen", "#3cb371"],
+    ["mediumslateblue", "#7b68ee"],
+    ["mediumspringgreen", "#00fa9a"],
+    ["mediumturquoise", "#48d1cc"],
+    ["mediumvioletred", "#c71585"],
+    ["midnightblue", "#191970"],
+    ["mintcream", "#f5fffa"],
+    ["mistyrose", "#ffe4e1"],
+    ["moccasin", "#ffe4b5"],
+    ["navajowhite", "#ffdead"],
+    ["navy", "#000080"],
+    ["oldlace", "#fdf5e6"],
+    ["olive", "#808000"],
+    ["olivedrab", "#6b8e23"],
+    ["orange", "#ffa500"],
+    ["orangered", "#ff4500"],
+    ["orchid", "#da70d6"],
+    ["palegoldenrod", "#eee8aa"],
+    ["palegreen", "#98fb98"],
+    ["paleturquoise", "#afeeee"],
+    ["palevioletred", "#db7093"],
+    ["papayawhip", "#ffefd5"],
+    ["peachpuff", "#ffdab9"],
+    ["peru", "#cd853f"],
+    ["pink", "#ffc0cb"],
+    ["plum", "#dda0dd"],
+    ["powderblue", "#b0e0e6"],
+    ["purple", "#800080"],
+    ["rebeccapurple", "#663399"],
+    ["red", "#ff0000"],
+    ["rosybrown", "#bc8f8f"],
+    ["royalblue", "#4169e1"],
+    ["saddlebrown", "#8b4513"],
+    ["salmon", "#fa8072"],
+    ["sandybrown", "#f4a460"],
+    ["seagreen", "#2e8b57"],
+    ["seashell", "#fff5ee"],
+    ["sienna", "#a0522d"],
+    ["silver", "#c0c0c0"],
+    ["skyblue", "#87ceeb"],
+    ["slateblue", "#6a5acd"],
+    ["slategray", "#708090"],
+    ["slategrey", "#708090"],
+    ["snow", "#fffafa"],
+    ["springgreen", "#00ff7f"],
+    ["steelblue", "#4682b4"],
+    ["tan", "#d2b48c"],
+    ["teal", "#008080"],
+    ["thistle", "#d8bfd8"],
+    ["tomato", "#ff6347"],
+    ["turquoise", "#40e0d0"],
+    ["violet", "#ee82ee"],
+    ["wheat", "#f5deb3"],
+    ["white", "#ffffff"],
+    ["whitesmoke", "#f5f5f5"],
+    ["yellow", "#ffff00"],
+    ["yellowgreen", "#9acd32"],
+]);
+
+/**
+ * isCssColor checks if a string is a CSS color accepted in a {@link Palette}.
+ */
+function isCssColor(color: string): boolean {
+    const c = color.trim();
+    if (/^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(c)) return true;
+    if (/^(?:transparent|currentcolor)$/i.test(c) || cssNamedColors.has(c.toLowerCase())) {
+        return true;
+    }
+    if (parseCssColorFunction(c) !== null) return true;
+
+    const variable = c.match(cssVariable);
+    return variable !== null && (variable[1] === undefined || isCssColor(variable[1]));
+}
+
+/**
+ * RGB is a color with red, green and blue components in the 0-255 range.
+ */
+type RGB = [number, number, number];
+
+/**
+ * parseCssColor computes the components of a color accepted by {@link isCssColor}, ignoring
+ * its alpha channel. Returns null for colors which can only be determined by the browser -
+ * `transparent`, `currentColor` and `var()` references.
+ */
+function parseCssColor(color: string): RGB | null {
+    const c = color.trim().toLowerCase();
+    const named = cssNamedColors.get(c);
+    if (named !== undefined) return parseCssColor(named);
+
+    if (c.startsWith("#")) {
+        const digits = c.length <= 5 ? [...c.slice(1, 4)].map((d) => d + d) : [
+            c.slice(1, 3),
+            c.slice(3, 5),
+            c.slice(5, 7),
+        ];
+        return digits.map((d) => parseInt(d, 16)) as RGB;
+    }
+
+    const f = parseCssColorFunction(c);
+    if (f === null) return null;
+    const [name, args] = f;
+
+    if (name.startsWith("rgb")) {
+        const value = (x: string) => x.endsWith("%") ? parseFloat(x) / 100 * 255 : parseFloat(x);
+        return args.map((x) => Math.round(value(x))) as RGB;
+    }
+    return hslToRgb(parseHue(args[0]), parseFloat(args[1]) / 100, parseFloat(args[2]) / 100);
+}
+
+function parseHue(hue: string): number {
+    const turns: Record<string, number> = {
+        deg: 1 / 360,
+        grad: 1 / 400,
+        rad: 1 / (2 * Math.PI),
+        turn: 1,
+    };
+    const unit = hue.match(/[a-z]+$/)?.[0] ?? "deg";
+    const h = parseFloat(hue) * turns[unit];
+    return h - Math.floor(h);
+}
+
+/**
+ * hslToRgb converts a color from HSL, with every component in the 0-1 range, to RGB.
+ */
+function hslToRgb(h: number, s: number, l: number): RGB {
+    const a = s * Math.min(l, 1 - l);
+    const f = (n: number) => {
+        const k = (n + h * 12) % 12;
+        return Math.round((l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255);
     };
+    return [f(0), f(8), f(4)];
+}
+
+/**
+ * rgbToHsl converts a color from RGB to HSL, with every component in the 0-1 range.
+ */
+function rgbToHsl([r, g, b]: RGB): [number, number, number] {
+    r /= 255;
+    g /= 255;
+    b /= 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    const d = max - min;
+    if (d === 0) return [0, 0, l];
+
+    const s = d / (1 - Math.abs(2 * l - 1));
+    let h: number;
+    if (max === r) {
+        h = ((g - b) / d + 6) % 6;
+    } else if (max === g) {
+        h = (b - r) / d + 2;
+    } else {
+        h = (r - g) / d + 4;
+    }
+    return [h / 6, s, l];
+}
+
+/**
+ * freezePalette recursively freezes a {@link Palette}.
+ */
+function freezePalette(palette: Palette): void {
+    Object.freeze(palette.standard);
+    Object.freeze(palette.bright);
+    if (palette.indexed !== undefined) Object.freeze(palette.indexed);
+    Object.freeze(palette);
 }
 
 /**
@@ -151,584 +545,3822 @@ export const defaultPalette: Palette = {
         cyan: "#61d6d6",
         white: "#f2f2f2",
     },
+    foreground: "#cccccc",
+    background: "#0c0c0c",
 };
 
-Object.freeze(defaultPalette.standard);
-Object.freeze(defaultPalette.bright);
-Object.freeze(defaultPalette);
+freezePalette(defaultPalette);
 
 /**
- * Options customize the ANSI SGR to HTML span conversion process.
+ * ThemeName is the name of one of the built-in {@link themes}.
  *
- * palette overrides colors from {@link defaultPalette}.
+ * @typedef {"campbell" | "xterm" | "vga" | "vscode-dark" | "vscode-light" | "solarized-dark" | "solarized-light" | "tango-dark" | "tango-light" | "dracula" | "github-dark" | "github-light"} ThemeName
+ */
+export type ThemeName =
+    | "campbell"
+    | "xterm"
+    | "vga"
+    | "vscode-dark"
+    | "vscode-light"
+    | "solarized-dark"
+    | "solarized-light"
+    | "tango-dark"
+    | "tango-light"
+    | "dracula"
+    | "github-dark"
+    | "github-light";
+
+/**
+ * themes is a catalogue of well-known terminal color schemes, which can be used
+ * as the {@link Options.palette}. "campbell" is the same as {@link defaultPalette}.
  *
- * escapeControlCodes, if set to true, will cause control codes \x00-\x07 and \x0E-\x1F
- * to be replaced by corresponding [control pictures](https://en.wikipedia.org/wiki/Control_Pictures)
- * (U+2400-U+241F).
+ * @type {Readonly<Record<ThemeName, Palette>>}
+ */
+export const themes: Readonly<Record<ThemeName, Palette>> = {
+    campbell: defaultPalette,
+    xterm: {
+        standard: {
+            black: "#000000",
+            red: "#cd0000",
+            green: "#00cd00",
+            yellow: "#cdcd00",
+            blue: "#0000ee",
+            magenta: "#cd00cd",
+            cyan: "#00cdcd",
+            white: "#e5e5e5",
+        },
+        bright: {
+            black: "#7f7f7f",
+            red: "#ff0000",
+            green: "#00ff00",
+            yellow: "#ffff00",
+            blue: "#5c5cff",
+            magenta: "#ff00ff",
+            cyan: "#00ffff",
+            white: "#ffffff",
+        },
+        foreground: "#000000",
+        background: "#ffffff",
+    },
+    vga: {
+        standard: {
+            black: "#000000",
+            red: "#aa0000",
+            green: "#00aa00",
+            yellow: "#aa5500",
+            blue: "#0000aa",
+            magenta: "#aa00aa",
+            cyan: "#00aaaa",
+            white: "#aaaaaa",
+        },
+        bright: {
+            black: "#555555",
+            red: "#ff5555",
+            green: "#55ff55",
+            yellow: "#ffff55",
+            blue: "#5555ff",
+            magenta: "#ff55ff",
+            cyan: "#55ffff",
+            white: "#ffffff",
+        },
+        foreground: "#aaaaaa",
+        background: "#000000",
+    },
+    "vscode-dark": {
+        standard: {
+            black: "#000000",
+            red: "#cd3131",
+            green: "#0dbc79",
+            yellow: "#e5e510",
+            blue: "#2472c8",
+            magenta: "#bc3fbc",
+            cyan: "#11a8cd",
+            white: "#e5e5e5",
+        },
+        bright: {
+            black: "#666666",
+            red: "#f14c4c",
+            green: "#23d18b",
+            yellow: "#f5f543",
+            blue: "#3b8eea",
+            magenta: "#d670d6",
+            cyan: "#29b8db",
+            white: "#e5e5e5",
+        },
+        foreground: "#cccccc",
+        background: "#1e1e1e",
+    },
+    "vscode-light": {
+        standard: {
+            black: "#000000",
+            red: "#cd3131",
+            green: "#00bc00",
+            yellow: "#949800",
+            blue: "#0451a5",
+            magenta: "#bc05bc",
+            cyan: "#0598bc",
+            white: "#555555",
+        },
+        bright: {
+            black: "#666666",
+            red: "#cd3131",
+            green: "#14ce14",
+            yellow: "#b5ba00",
+            blue: "#0451a5",
+            magenta: "#bc05bc",
+            cyan: "#0598bc",
+            white: "#a5a5a5",
+        },
+        foreground: "#333333",
+        background: "#ffffff",
+    },
+    "solarized-dark": {
+        standard: {
+            black: "#073642",
+            red: "#dc322f",
+            green: "#859900",
+            yellow: "#b58900",
+            blue: "#268bd2",
+            magenta: "#d33682",
+            cyan: "#2aa198",
+            white: "#eee8d5",
+        },
+        bright: {
+            black: "#002b36",
+            red: "#cb4b16",
+            green: "#586e75",
+            yellow: "#657b83",
+            blue: "#839496",
+            magenta: "#6c71c4",
+            cyan: "#93a1a1",
+            white: "#fdf6e3",
+        },
+        foreground: "#839496",
+        background: "#002b36",
+    },
+    "solarized-light": {
+        standard: {
+            black: "#073642",
+            red: "#dc322f",
+            green: "#859900",
+            yellow: "#b58900",
+            blue: "#268bd2",
+            magenta: "#d33682",
+            cyan: "#2aa198",
+            white: "#eee8d5",
+        },
+        bright: {
+            black: "#002b36",
+            red: "#cb4b16",
+            green: "#586e75",
+            yellow: "#657b83",
+            blue: "#839496",
+            magenta: "#6c71c4",
+            cyan: "#93a1a1",
+            white: "#fdf6e3",
+        },
+        foreground: "#657b83",
+        background: "#fdf6e3",
+    },
+    "tango-dark": {
+        standard: {
+            black: "#2e3436",
+            red: "#cc0000",
+            green: "#4e9a06",
+            yellow: "#c4a000",
+            blue: "#3465a4",
+            magenta: "#75507b",
+            cyan: "#06989a",
+            white: "#d3d7cf",
+        },
+        bright: {
+            black: "#555753",
+            red: "#ef2929",
+            green: "#8ae234",
+            yellow: "#fce94f",
+            blue: "#729fcf",
+            magenta: "#ad7fa8",
+            cyan: "#34e2e2",
+            white: "#eeeeec",
+        },
+        foreground: "#d3d7cf",
+        background: "#2e3436",
+    },
+    "tango-light": {
+        standard: {
+            black: "#2e3436",
+            red: "#cc0000",
+            green: "#4e9a06",
+            yellow: "#c4a000",
+            blue: "#3465a4",
+            magenta: "#75507b",
+            cyan: "#06989a",
+            white: "#d3d7cf",
+        },
+        bright: {
+            black: "#555753",
+            red: "#ef2929",
+            green: "#8ae234",
+            yellow: "#fce94f",
+            blue: "#729fcf",
+            magenta: "#ad7fa8",
+            cyan: "#34e2e2",
+            white: "#eeeeec",
+        },
+        foreground: "#2e3436",
+        background: "#eeeeec",
+    },
+    dracula: {
+        standard: {
+            black: "#21222c",
+            red: "#ff5555",
+            green: "#50fa7b",
+            yellow: "#f1fa8c",
+            blue: "#bd93f9",
+            magenta: "#ff79c6",
+            cyan: "#8be9fd",
+            white: "#f8f8f2",
+        },
+        bright: {
+            black: "#6272a4",
+            red: "#ff6e6e",
+            green: "#69ff94",
+            yellow: "#ffffa5",
+            blue: "#d6acff",
+            magenta: "#ff92df",
+            cyan: "#a4ffff",
+            white: "#ffffff",
+        },
+        foreground: "#f8f8f2",
+        background: "#282a36",
+    },
+    "github-dark": {
+        standard: {
+            black: "#484f58",
+            red: "#ff7b72",
+            green: "#3fb950",
+            yellow: "#d29922",
+            blue: "#58a6ff",
+            magenta: "#bc8cff",
+            cyan: "#39c5cf",
+            white: "#b1bac4",
+        },
+        bright: {
+            black: "#6e7681",
+            red: "#ffa198",
+            green: "#56d364",
+            yellow: "#e3b341",
+            blue: "#79c0ff",
+            magenta: "#d2a8ff",
+            cyan: "#56d4dd",
+            white: "#f0f6fc",
+        },
+        foreground: "#c9d1d9",
+        background: "#0d1117",
+    },
+    "github-light": {
+        standard: {
+            black: "#24292f",
+            red: "#cf222e",
+            green: "#116329",
+            yellow: "#4d2d00",
+            blue: "#0969da",
+            magenta: "#8250df",
+            cyan: "#1b7c83",
+            white: "#6e7781",
+        },
+        bright: {
+            black: "#57606a",
+            red: "#a40e26",
+            green: "#1a7f37",
+            yellow: "#633c01",
+            blue: "#218bff",
+            magenta: "#a475f9",
+            cyan: "#3192aa",
+            white: "#8c959f",
+        },
+        foreground: "#24292f",
+        background: "#ffffff",
+    },
+};
+
+Object.values(themes).forEach(freezePalette);
+Object.freeze(themes);
+
+/**
+ * getTheme looks up one of the built-in {@link themes} by its name. The lookup ignores case,
+ * and treats spaces and underscores the same as dashes - "Solarized Dark" finds "solarized-dark".
  *
- * @typedef {object} Options
- * @property {PartialPalette} [palette]
- * @property {boolean} [escapeControlCodes=false]
+ * @param {string} name
+ * @returns {Palette | undefined} the theme, or undefined if there's no theme with the provided name
  */
-export interface Options {
-    palette?: PartialPalette;
-    escapeControlCodes?: boolean;
+export function getTheme(name: string): Palette | undefined {
+    const key = name.trim().toLowerCase().replaceAll(/[\s_]+/g, "-");
+    return Object.hasOwn(themes, key) ? themes[key as ThemeName] : undefined;
 }
 
-class Style {
-    fontWeight: "" | "bolder" | "lighter" = "";
-    fontStyle: "" | "italic" = "";
-    textDecorationUnderline: boolean = false;
-    textDecorationLineThrough: boolean = false;
-    color: string = "";
-    backgroundColor: string = "";
+/**
+ * x11Colors maps X11 color names - lowercase, without spaces and with "grey" spelled as "gray" -
+ * to their values. Names with numbered variants (e.g. "red1" to "red4") have the variants'
+ * values listed after the value of the base color. "gray0" to "gray100" are not listed.
+ */
+const x11Colors: Readonly<Record<string, string>> = {
+    aliceblue: "#f0f8ff",
+    antiquewhite: "#faebd7 #ffefdb #eedfcc #cdc0b0 #8b8378",
+    aqua: "#00ffff",
+    aquamarine: "#7fffd4 #7fffd4 #76eec6 #66cdaa #458b74",
+    azure: "#f0ffff #f0ffff #e0eeee #c1cdcd #838b8b",
+    beige: "#f5f5dc",
+    bisque: "#ffe4c4 #ffe4c4 #eed5b7 #cdb79e #8b7d6b",
+    black: "#000000",
+    blanchedalmond: "#ffebcd",
+    blue: "#0000ff #0000ff #0000ee #0000cd #00008b",
+    blueviolet: "#8a2be2",
+    brown: "#a52a2a #ff4040 #ee3b3b #cd3333 #8b2323",
+    burlywood: "#deb887 #ffd39b #eec591 #cdaa7d #8b7355",
+    cadetblue: "#5f9ea0 #98f5ff #8ee5ee #7ac5cd #53868b",
+    chartreuse: "#7fff00 #7fff00 #76ee00 #66cd00 #458b00",
+    chocolate: "#d2691e #ff7f24 #ee7621 #cd661d #8b4513",
+    coral: "#ff7f50 #ff7256 #ee6a50 #cd5b45 #8b3e2f",
+    cornflowerblue: "#6495ed",
+    cornsilk: "#fff8dc #fff8dc #eee8cd #cdc8b1 #8b8878",
+    crimson: "#dc143c",
+    cyan: "#00ffff #00ffff #00eeee #00cdcd #008b8b",
+    darkblue: "#00008b",
+    darkcyan: "#008b8b",
+    darkgoldenrod: "#b8860b #ffb90f #eead0e #cd950c #8b6508",
+    darkgray: "#a9a9a9",
+    darkgreen: "#006400",
+    darkkhaki: "#bdb76b",
+    darkmagenta: "#8b008b",
+    darkolivegreen: "#556b2f #caff70 #bcee68 #a2cd5a #6e8b3d",
+    darkorange: "#ff8c00 #ff7f00 #ee7600 #cd6600 #8b4500",
+    darkorchid: "#9932cc #bf3eff #b23aee #9a32cd #68228b",
+    darkred: "#8b0000",
+    darksalmon: "#e9967a",
+    darkseagreen: "#8fbc8f #c1ffc1 #b4eeb4 #9bcd9b #698b69",
+    darkslateblue: "#483d8b",
+    darkslategray: "#2f4f4f #97ffff #8deeee #79cdcd #528b8b",
+    darkturquoise: "#00ced1",
+    darkviolet: "#9400d3",
+    debianred: "#d70751",
+    deeppink: "#ff1493 #ff1493 #ee1289 #cd1076 #8b0a50",
+    deepskyblue: "#00bfff #00bfff #00b2ee #009acd #00688b",
+    dimgray: "#696969",
+    dodgerblue: "#1e90ff #1e90ff #1c86ee #1874cd #104e8b",
+    firebrick: "#b22222 #ff3030 #ee2c2c #cd2626 #8b1a1a",
+    floralwhite: "#fffaf0",
+    forestgreen: "#228b22",
+    fuchsia: "#ff00ff",
+    gainsboro: "#dcdcdc",
+    ghostwhite: "#f8f8ff",
+    gold: "#ffd700 #ffd700 #eec900 #cdad00 #8b7500",
+    goldenrod: "#daa520 #ffc125 #eeb422 #cd9b1d #8b6914",
+    gray: "#bebebe",
+    green: "#00ff00 #00ff00 #00ee00 #00cd00 #008b00",
+    greenyellow: "#adff2f",
+    honeydew: "#f0fff0 #f0fff0 #e0eee0 #c1cdc1 #838b83",
+    hotpink: "#ff69b4 #ff6eb4 #ee6aa7 #cd6090 #8b3a62",
+    indianred: "#cd5c5c #ff6a6a #ee6363 #cd5555 #8b3a3a",
+    indigo: "#4b0082",
+    ivory: "#fffff0 #fffff0 #eeeee0 #cdcdc1 #8b8b83",
+    khaki: "#f0e68c #fff68f #eee685 #cdc673 #8b864e",
+    lavender: "#e6e6fa",
+    lavenderblush: "#fff0f5 #fff0f5 #eee0e5 #cdc1c5 #8b8386",
+    lawngreen: "#7cfc00",
+    lemonchiffon: "#fffacd #fffacd #eee9bf #cdc9a5 #8b8970",
+    lightblue: "#add8e6 #bfefff #b2dfee #9ac0cd #68838b",
+    lightcoral: "#f08080",
+    lightcyan: "#e0ffff #e0ffff #d1eeee #b4cdcd #7a8b8b",
+    lightgoldenrod: "#eedd82 #ffec8b #eedc82 #cdbe70 #8b814c",
+    lightgoldenrodyellow: "#fafad2",
+    lightgray: "#d3d3d3",
+    lightgreen: "#90ee90",
+    lightpink: "#ffb6c1 #ffaeb9 #eea2ad #cd8c95 #8b5f65",
+    lightsalmon: "#ffa07a #ffa07a #ee9572 #cd8162 #8b5742",
+    lightseagreen: "#20b2aa",
+    lightskyblue: "#87cefa #b0e2ff #a4d3ee #8db6cd #607b8b",
+    lightslateblue: "#8470ff",
+    lightslategray: "#778899",
+    lightsteelblue: "#b0c4de #cae1ff #bcd2ee #a2b5cd #6e7b8b",
+    lightyellow: "#ffffe0 #ffffe0 #eeeed1 #cdcdb4 #8b8b7a",
+    lime: "#00ff00",
+    limegreen: "#32cd32",
+    linen: "#faf0e6",
+    magenta: "#ff00ff #ff00ff #ee00ee #cd00cd #8b008b",
+    maroon: "#b03060 #ff34b3 #ee30a7 #cd2990 #8b1c62",
+    mediumaquamarine: "#66cdaa",
+    mediumblue: "#0000cd",
+    mediumorchid: "#ba55d3 #e066ff #d15fee #b452cd #7a378b",
+    mediumpurple: "#9370db #ab82ff #9f79ee #8968cd #5d478b",
+    mediumseagreen: "#3cb371",
+    mediumslateblue: "#7b68ee",
+    mediumspringgreen: "#00fa9a",
+    mediumturquoise: "#48d1cc",
+    mediumvioletred: "#c71585",
+    midnightblue: "#191970",
+    mintcream: "#f5fffa",
+    mistyrose: "#ffe4e1 #ffe4e1 #eed5d2 #cdb7b5 #8b7d7b",
+    moccasin: "#ffe4b5",
+    navajowhite: "#ffdead #ffdead #eecfa1 #cdb38b #8b795e",
+    navy: "#000080",
+    navyblue: "#000080",
+    oldlace: "#fdf5e6",
+    olive: "#808000",
+    olivedrab: "#6b8e23 #c0ff3e #b3ee3a #9acd32 #698b22",
+    orange: "#ffa500 #ffa500 #ee9a00 #cd8500 #8b5a00",
+    orangered: "#ff4500 #ff4500 #ee4000 #cd3700 #8b2500",
+    orchid: "#da70d6 #ff83fa #ee7ae9 #cd69c9 #8b4789",
+    palegoldenrod: "#eee8aa",
+    palegreen: "#98fb98 #9aff9a #90ee90 #7ccd7c #548b54",
+    paleturquoise: "#afeeee #bbffff #aeeeee #96cdcd #668b8b",
+    palevioletred: "#db7093 #ff82ab #ee799f #cd6889 #8b475d",
+    papayawhip: "#ffefd5",
+    peachpuff: "#ffdab9 #ffdab9 #eecbad #cdaf95 #8b7765",
+    peru: "#cd853f",
+    pink: "#ffc0cb #ffb5c5 #eea9b8 #cd919e #8b636c",
+    plum: "#dda0dd #ffbbff #eeaeee #cd96cd #8b668b",
+    powderblue: "#b0e0e6",
+    purple: "#a020f0 #9b30ff #912cee #7d26cd #551a8b",
+    rebeccapurple: "#663399",
+    red: "#ff0000 #ff0000 #ee0000 #cd0000 #8b0000",
+    rosybrown: "#bc8f8f #ffc1c1 #eeb4b4 #cd9b9b #8b6969",
+    royalblue: "#4169e1 #4876ff #436eee #3a5fcd #27408b",
+    saddlebrown: "#8b4513",
+    salmon: "#fa8072 #ff8c69 #ee8262 #cd7054 #8b4c39",
+    sandybrown: "#f4a460",
+    seagreen: "#2e8b57 #54ff9f #4eee94 #43cd80 #2e8b57",
+    seashell: "#fff5ee #fff5ee #eee5de #cdc5bf #8b8682",
+    sienna: "#a0522d #ff8247 #ee7942 #cd6839 #8b4726",
+    silver: "#c0c0c0",
+    skyblue: "#87ceeb #87ceff #7ec0ee #6ca6cd #4a708b",
+    slateblue: "#6a5acd #836fff #7a67ee #6959cd #473c8b",
+    slategray: "#708090 #c6e2ff #b9d3ee #9fb6cd #6c7b8b",
+    snow: "#fffafa #fffafa #eee9e9 #cdc9c9 #8b8989",
+    springgreen: "#00ff7f #00ff7f #00ee76 #00cd66 #008b45",
+    steelblue: "#4682b4 #63b8ff #5cacee #4f94cd #36648b",
+    tan: "#d2b48c #ffa54f #ee9a49 #cd853f #8b5a2b",
+    teal: "#008080",
+    thistle: "#d8bfd8 #ffe1ff #eed2ee #cdb5cd #8b7b8b",
+    tomato: "#ff6347 #ff6347 #ee5c42 #cd4f39 #8b3626",
+    turquoise: "#40e0d0 #00f5ff #00e5ee #00c5cd #00868b",
+    violet: "#ee82ee",
+    violetred: "#d02090 #ff3e96 #ee3a8c #cd3278 #8b2252",
+    webgray: "#808080",
+    webgreen: "#008000",
+    webmaroon: "#800000",
+    webpurple: "#800080",
+    wheat: "#f5deb3 #ffe7ba #eed8ae #cdba96 #8b7e66",
+    white: "#ffffff",
+    whitesmoke: "#f5f5f5",
+    x11gray: "#bebebe",
+    x11green: "#00ff00",
+    x11maroon: "#b03060",
+    x11purple: "#a020f0",
+    yellow: "#ffff00 #ffff00 #eeee00 #cdcd00 #8b8b00",
+    yellowgreen: "#9acd32",
+};
 
-    copy(): Style {
-        const n = new Style();
-        n.fontWeight = this.fontWeight;
-        n.fontStyle = this.fontStyle;
-        n.textDecorationUnderline = this.textDecorationUnderline;
-        n.textDecorationLineThrough = this.textDecorationLineThrough;
-        n.color = this.color;
-        n.backgroundColor = this.backgroundColor;
-        return n;
+/**
+ * x11Color looks up an X11 color name, like "red", "Dark Slate Gray", "SeaGreen3" or "grey50".
+ * The lookup ignores case and spaces.
+ */
+function x11Color(name: string): string | undefined {
+    const key = name.toLowerCase().replaceAll(/\s+/g, "").replaceAll("grey", "gray");
+    let m = key.match(/^gray(\d{1,3})$/);
+    if (m !== null && parseInt(m[1], 10) <= 100) {
+        const v = Math.round(parseInt(m[1], 10) * 2.55);
+        return rgbToHex(v, v, v);
     }
 
-    equals(o: Style): boolean {
-        return this.fontWeight === o.fontWeight && this.fontStyle === o.fontStyle &&
-            this.textDecorationUnderline === o.textDecorationUnderline &&
-            this.textDecorationLineThrough === o.textDecorationLineThrough &&
-            this.color === o.color && this.backgroundColor === o.backgroundColor;
-    }
+    m = key.match(/^([a-z\d]*[a-z])([1-4]?)$/);
+    if (m === null || !Object.hasOwn(x11Colors, m[1])) return undefined;
+    return x11Colors[m[1]].split(" ")[m[2] === "" ? 0 : parseInt(m[2], 10)];
+}
 
-    isEmpty(): boolean {
-        return this.fontWeight === "" && this.fontStyle === "" && !this.textDecorationUnderline &&
-            !this.textDecorationLineThrough && this.color === "" && this.backgroundColor === "";
+/**
+ * normalizeColor converts a color from a terminal configuration file - `#rgb`, `#rrggbb`,
+ * `0xrrggbb`, `rrggbb`, the X11 `rgb:r/g/b` form or an X11 color name - to the `#rrggbb` form.
+ */
+function normalizeColor(value: string): string {
+    const v = value.trim().toLowerCase();
+    let m = v.match(/^(?:#|0x)?([0-9a-f]{6})$/);
+    if (m !== null) return `#${m[1]}`;
+
+    m = v.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+    if (m !== null) return `#${m[1]}${m[1]}${m[2]}${m[2]}${m[3]}${m[3]}`;
+
+    m = v.match(/^rgb:([0-9a-f]{1,4})\/([0-9a-f]{1,4})\/([0-9a-f]{1,4})$/);
+    if (m !== null) {
+        // X11 components are scaled to their number of digits: "f" and "ffff" are both the maximum
+        const scale = (h: string) => Math.round(parseInt(h, 16) / (16 ** h.length - 1) * 255);
+        return rgbToHex(scale(m[1]), scale(m[2]), scale(m[3]));
     }
 
-    toCssStyle(): string {
-        const parts = ['style="'];
+    const named = x11Color(v);
+    if (named !== undefined) return named;
 
-        if (this.fontWeight !== "") {
-            parts.push("font-weight:");
-            parts.push(this.fontWeight);
-            parts.push(";");
-        }
+    throw new SyntaxError(`[sgrp] Invalid color: ${JSON.stringify(value)}`);
+}
 
-        if (this.fontStyle !== "") {
-            parts.push("font-style:");
-            parts.push(this.fontStyle);
-            parts.push(";");
-        }
+function rgbToHex(r: number, g: number, b: number): string {
+    return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, "0")}`;
+}
 
-        if (this.textDecorationUnderline || this.textDecorationLineThrough) {
-            parts.push("text-decoration:");
-            parts.push(this.textDecoration);
-            parts.push(";");
+/**
+ * paletteFromColorTable converts entries of the 256-color table and the default colors
+ * into a {@link PartialPalette}.
+ */
+function paletteFromColorTable(
+    table: ReadonlyMap<number, string>,
+    foreground: string | undefined,
+    background: string | undefined,
+): PartialPalette {
+    const standard: Partial<Colors> = {};
+    const bright: Partial<Colors> = {};
+    const indexed: Record<number, string> = {};
+    for (const [index, color] of table) {
+        if (index < 8) {
+            standard[colorNames[index]] = color;
+        } else if (index < 16) {
+            bright[colorNames[index - 8]] = color;
+        } else if (index < 256) {
+            indexed[index] = color;
         }
+    }
 
-        if (this.color !== "") {
-            parts.push("color:");
-            parts.push(this.color); // TODO: escape CSS value
-            parts.push(";");
-        }
+    const palette: PartialPalette = { standard, bright };
+    if (Object.keys(indexed).length > 0) palette.indexed = indexed;
+    if (foreground !== undefined) palette.foreground = foreground;
+    if (background !== undefined) palette.background = background;
+    return palette;
+}
 
-        if (this.backgroundColor !== "") {
-            parts.push("background-color:");
-            parts.push(this.backgroundColor); // TODO: escape CSS value
-            parts.push(";");
-        }
+const windowsTerminalColorNames = [
+    "black",
+    "red",
+    "green",
+    "yellow",
+    "blue",
+    "purple",
+    "cyan",
+    "white",
+];
 
-        parts.push('"');
-        return parts.join("");
+/**
+ * paletteFromWindowsTerminal parses a Windows Terminal color scheme. The input can be
+ * a whole settings.json file (comments and trailing commas are allowed), from which
+ * the scheme with the provided name (or the first scheme) is taken, or a single scheme object.
+ *
+ * @param {string} json - contents of settings.json or of a single color scheme
+ * @param {string} [name] - name of the scheme to take from settings.json
+ * @returns {PartialPalette}
+ * @throws {SyntaxError} if the input is malformed, or the scheme can't be found
+ */
+export function paletteFromWindowsTerminal(json: string, name?: string): PartialPalette {
+    const root: unknown = JSON.parse(stripJsonComments(json));
+    let schemes: unknown[];
+    if (Array.isArray(root)) {
+        schemes = root;
+    } else if (Array.isArray(asRecord(root)?.schemes)) {
+        schemes = asRecord(root)!.schemes as unknown[];
+    } else {
+        schemes = [root];
     }
 
-    applyTo(s: CSSStyleDeclaration): void {
-        s.fontWeight = this.fontWeight;
-        s.fontStyle = this.fontStyle;
-        s.textDecoration = this.textDecoration;
-        s.color = this.color;
-        s.backgroundColor = this.backgroundColor;
+    const scheme = name === undefined
+        ? asRecord(schemes[0])
+        : schemes.map(asRecord).find((s) => s?.name === name);
+    if (scheme === undefined) {
+        const message = name === undefined
+            ? "No color schemes in Windows Terminal settings"
+            : `No color scheme named ${JSON.stringify(name)} in Windows Terminal settings`;
+        throw new SyntaxError(`[sgrp] ${message}`);
     }
 
-    get textDecoration(): string {
-        if (this.textDecorationUnderline && this.textDecorationLineThrough) {
-            return "underline line-through";
-        } else if (this.textDecorationUnderline) {
-            return "underline";
-        } else if (this.textDecorationLineThrough) {
-            return "line-through";
-        }
-        return "";
-    }
-}
+    const color = (key: string) =>
+        typeof scheme[key] === "string" ? normalizeColor(scheme[key] as string) : undefined;
 
-enum State {
-    Text,
-    Esc,
-    Csi,
-}
+    const table = new Map<number, string>();
+    windowsTerminalColorNames.forEach((colorName, i) => {
+        const brightName = `bright${colorName[0].toUpperCase()}${colorName.slice(1)}`;
+        const normal = color(colorName);
+        const bright = color(brightName);
+        if (normal !== undefined) table.set(i, normal);
+        if (bright !== undefined) table.set(i + 8, bright);
+    });
 
-abstract class Parser {
-    private static readonly csiArgLenLimit = 64;
+    return paletteFromColorTable(table, color("foreground"), color("background"));
+}
 
-    #palette: Palette;
-    #state: State = State.Text;
-    #csiArgs: string = "";
-    #csiCommand: string = "";
-    #style: Style = new Style();
+/**
+ * stripJsonComments removes comments and trailing commas from JSON, as allowed
+ * in Windows Terminal's settings.json.
+ */
+function stripJsonComments(json: string): string {
+    let result = "";
+    let i = 0;
+
+    const skipComments = (j: number): number => {
+        for (;;) {
+            while (j < json.length && /\s/.test(json[j])) ++j;
+            if (json.startsWith("//", j)) {
+                const end = json.indexOf("\n", j);
+                j = end < 0 ? json.length : end;
+            } else if (json.startsWith("/*", j)) {
+                const end = json.indexOf("*/", j + 2);
+                j = end < 0 ? json.length : end + 2;
+            } else {
+                return j;
+            }
+        }
+    };
 
-    constructor(options: Options = {}) {
-        this.#palette = resolvePalette(options.palette);
+    while (i < json.length) {
+        const c = json[i];
+        if (c === '"') {
+            let end = i + 1;
+            while (end < json.length && json[end] !== '"') end += json[end] === "\\" ? 2 : 1;
+            result += json.slice(i, end + 1);
+            i = end + 1;
+        } else if (c === "/" && (json[i + 1] === "/" || json[i + 1] === "*")) {
+            result += " ";
+            i = skipComments(i);
+        } else if (
+            c === "," && (json[skipComments(i + 1)] === "}" || json[skipComments(i + 1)] === "]")
+        ) {
+            ++i;
+        } else {
+            result += c;
+            ++i;
+        }
     }
+    return result;
+}
 
-    protected abstract onText(t: string): void;
-
-    protected abstract onStyleChange(s: Style): void;
+/**
+ * paletteFromItermColors parses an iTerm2 color preset (an .itermcolors property list).
+ *
+ * @param {string} plist - contents of the .itermcolors file
+ * @returns {PartialPalette}
+ * @throws {SyntaxError} if the input isn't an iTerm2 color preset
+ */
+export function paletteFromItermColors(plist: string): PartialPalette {
+    const colors = new Map<string, string>();
+    for (const entry of plist.matchAll(/<key>([^<]*)<\/key>\s*<dict>([\s\S]*?)<\/dict>/g)) {
+        const components: Record<string, number> = {};
+        for (const c of entry[2].matchAll(/<key>([^<]*)<\/key>\s*<(real|integer)>([^<]*)<\/\2>/g)) {
+            components[c[1]] = parseFloat(c[3]);
+        }
 
-    protected push(chunk: string): void {
-        while (chunk.length > 0) {
-            switch (this.#state) {
-                case State.Text:
-                    chunk = this.handleText(chunk);
-                    break;
-                case State.Esc:
-                    chunk = this.handleEsc(chunk);
-                    break;
-                case State.Csi:
-                    chunk = this.handleCsi(chunk);
-                    break;
+        const component = (name: string) => {
+            const v = components[`${name} Component`];
+            if (v === undefined || !(v >= 0 && v <= 1)) {
+                throw new SyntaxError(
+                    `[sgrp] Invalid ${name} Component of ${entry[1]} in iTerm2 colors`,
+                );
             }
-        }
+            return Math.round(v * 255);
+        };
+        colors.set(entry[1], rgbToHex(component("Red"), component("Green"), component("Blue")));
     }
 
-    protected finalize(): void {
-        switch (this.#state) {
-            case State.Text:
-                break; // nothing to do
-
-            case State.Esc:
-                this.onText("\x1B");
-                break;
+    if (colors.size === 0) throw new SyntaxError("[sgrp] No colors in iTerm2 colors");
 
-            case State.Csi:
-                this.dumpUnknownCsi();
-                break;
-        }
+    const table = new Map<number, string>();
+    for (let i = 0; i < 16; ++i) {
+        const color = colors.get(`Ansi ${i} Color`);
+        if (color !== undefined) table.set(i, color);
     }
+    return paletteFromColorTable(
+        table,
+        colors.get("Foreground Color"),
+        colors.get("Background Color"),
+    );
+}
 
-    private handleText(chunk: string): string {
-        const escIdx = chunk.indexOf("\x1B");
-        if (escIdx < 0) {
-            this.onText(chunk);
-            return "";
-        } else {
-            this.onText(chunk.slice(0, escIdx));
-            this.#state = State.Esc;
-            return chunk.slice(escIdx + 1);
+/**
+ * paletteFromXresources parses colors from an X resources file (like ~/.Xresources),
+ * e.g. `*.color1: #cc0000` or `URxvt.foreground: #ffffff`. Colors may also be given
+ * as X11 color names, like `*.color2: SeaGreen3`. Simple `#define` macros
+ * are supported, other preprocessor directives are ignored.
+ *
+ * @param {string} text - contents of the X resources file
+ * @returns {PartialPalette}
+ * @throws {SyntaxError} if any color is invalid
+ */
+export function paletteFromXresources(text: string): PartialPalette {
+    const defines = new Map<string, string>();
+    const table = new Map<number, string>();
+    let foreground: string | undefined;
+    let background: string | undefined;
+
+    for (let line of text.split("\n")) {
+        line = line.trim();
+        const define = line.match(/^#\s*define\s+(\S+)\s+(.+)$/);
+        if (define !== null) {
+            defines.set(define[1], define[2].trim());
+            continue;
+        } else if (line.startsWith("!") || line.startsWith("#")) {
+            continue;
         }
-    }
 
-    private handleEsc(chunk: string): string {
-        if (chunk.charCodeAt(0) === 0x5B) { // "["
-            this.#state = State.Csi;
-            return chunk.slice(1);
-        } else {
-            this.onText("\x1B");
-            this.#state = State.Text;
-            return chunk;
+        const resource = line.match(/^([^:]+):\s*(.*)$/);
+        if (resource === null) continue;
+
+        const name = resource[1].trim().split(/[.*]/).at(-1)!.toLowerCase();
+        const value = defines.get(resource[2].trim()) ?? resource[2];
+        const index = name.match(/^color(\d+)$/);
+        if (index !== null) {
+            table.set(parseInt(index[1], 10), normalizeColor(value));
+        } else if (name === "foreground") {
+            foreground = normalizeColor(value);
+        } else if (name === "background") {
+            background = normalizeColor(value);
         }
     }
 
-    private handleCsi(chunk: string): string {
-        const spaceLeft = Parser.csiArgLenLimit - this.#csiArgs.length;
-        const commandIdx = chunk.search(/[^0-9;]/);
+    return paletteFromColorTable(table, foreground, background);
+}
 
-        const argsChunk = commandIdx < 0 ? chunk : chunk.slice(0, commandIdx);
-        if (argsChunk.length > spaceLeft) {
-            console.error("[sgrp] CSI parameter list too long. Rewriting as-is.");
-            this.dumpUnknownCsi();
-            return chunk;
+/**
+ * paletteFromAlacritty parses the colors section of an Alacritty configuration file,
+ * either in the TOML (alacritty.toml) or the legacy YAML (alacritty.yml) format.
+ * Only the subsets of TOML and YAML used by color configurations are supported.
+ *
+ * @param {string} text - contents of the configuration file
+ * @param {"toml" | "yaml"} format - format of the configuration file
+ * @returns {PartialPalette}
+ * @throws {SyntaxError} if the input is malformed, or has no colors section
+ */
+export function paletteFromAlacritty(text: string, format: "toml" | "yaml"): PartialPalette {
+    const root = format === "toml" ? parseTomlSubset(text) : parseYamlSubset(text);
+    const colors = asRecord(asRecord(root)?.colors);
+    if (colors === undefined) throw new SyntaxError("[sgrp] No colors in Alacritty configuration");
+
+    const table = new Map<number, string>();
+    const normal = asRecord(colors.normal);
+    const bright = asRecord(colors.bright);
+    colorNames.forEach((colorName, i) => {
+        if (typeof normal?.[colorName] === "string") {
+            table.set(i, normalizeColor(normal[colorName] as string));
         }
-
-        this.#csiArgs += argsChunk;
-        if (commandIdx >= 0) {
-            this.#csiCommand = chunk.charAt(commandIdx);
-            if (this.#csiCommand === "m") {
-                this.handleSgr();
-            } else {
-                this.dumpUnknownCsi();
+        if (typeof bright?.[colorName] === "string") {
+            table.set(i + 8, normalizeColor(bright[colorName] as string));
+        }
+    });
+
+    if (Array.isArray(colors.indexed_colors)) {
+        for (const entry of colors.indexed_colors) {
+            const index = Number(asRecord(entry)?.index);
+            const color = asRecord(entry)?.color;
+            if (!isU8Number(index) || typeof color !== "string") {
+                throw new SyntaxError("[sgrp] Invalid indexed color in Alacritty configuration");
             }
-            return chunk.slice(commandIdx + 1);
-        } else {
-            return "";
+            table.set(index, normalizeColor(color));
         }
     }
 
-    private handleSgr(): void {
-        if (this.#csiArgs.match(/^[0-9;]*$/) === null) {
-            console.error("[sgrp]: CSI parameter list doesn't match /^[0-9;]*$/. Rewriting as-is.");
-            this.dumpUnknownCsi();
-            return;
-        }
+    const primary = asRecord(colors.primary);
+    const color = (key: string) =>
+        typeof primary?.[key] === "string" ? normalizeColor(primary[key] as string) : undefined;
+    return paletteFromColorTable(table, color("foreground"), color("background"));
+}
 
-        const parameters = this.#csiArgs.length > 0
-            ? this.#csiArgs.split(";").map((i) => i.length > 0 ? parseInt(i, 10) : 0)
-            : [0];
+/**
+ * base16Colors maps entries of the 256-color table to base16 colors,
+ * following base16-shell.
+ */
+const base16Colors: readonly string[] = [
+    "base00",
+    "base08",
+    "base0B",
+    "base0A",
+    "base0D",
+    "base0E",
+    "base0C",
+    "base05",
+    "base03",
+    "base08",
+    "base0B",
+    "base0A",
+    "base0D",
+    "base0E",
+    "base0C",
+    "base07",
+    "base09",
+    "base0F",
+    "base01",
+    "base02",
+    "base04",
+    "base06",
+];
 
-        const newStyle = this.parseSgrParameters(parameters);
-        if (!this.#style.equals(newStyle)) {
-            this.#style = newStyle;
-            this.onStyleChange(this.#style);
+/**
+ * paletteFromBase16 parses a base16 scheme YAML file, in either the original format
+ * (with base00-base0F at the top level) or the newer one (with a palette mapping).
+ * Colors are mapped to the 256-color table like base16-shell does, with base05 being
+ * the default foreground and base00 - the default background.
+ *
+ * @param {string} yaml - contents of the scheme file
+ * @returns {PartialPalette}
+ * @throws {SyntaxError} if the input is malformed, or any color is missing
+ */
+export function paletteFromBase16(yaml: string): PartialPalette {
+    const root = asRecord(parseYamlSubset(yaml));
+    const scheme = asRecord(root?.palette) ?? root;
+
+    const color = (name: string) => {
+        // Hex digits in the names may be in either case
+        const value = scheme?.[name] ?? scheme?.[name.toLowerCase()];
+        if (typeof value !== "string") {
+            throw new SyntaxError(`[sgrp] Missing ${name} in base16 scheme`);
         }
+        return normalizeColor(value);
+    };
 
-        this.#csiArgs = "";
-        this.#csiCommand = "";
-        this.#state = State.Text;
-    }
+    const table = new Map<number, string>();
+    base16Colors.forEach((name, i) => table.set(i, color(name)));
+    return paletteFromColorTable(table, color("base05"), color("base00"));
+}
 
-    private parseSgrParameters(parameters: number[]): Style {
-        const newStyle = this.#style.copy();
-        for (let i = 0; i < parameters.length; ++i) {
-            switch (parameters[i]) {
-                case 0:
-                    newStyle.fontWeight = "";
-                    newStyle.fontStyle = "";
-                    newStyle.textDecorationLineThrough = false;
-                    newStyle.textDecorationUnderline = false;
-                    newStyle.color = "";
-                    newStyle.backgroundColor = "";
-                    break;
+function asRecord(x: unknown): Record<string, unknown> | undefined {
+    return typeof x === "object" && x !== null && !Array.isArray(x)
+        ? x as Record<string, unknown>
+        : undefined;
+}
 
-                case 1:
-                    newStyle.fontWeight = "bolder";
-                    break;
+/**
+ * parseScalar parses a quoted string, or returns a plain value as-is.
+ */
+function parseScalar(value: string): string {
+    value = value.trim();
+    if (value.length >= 2 && value[0] === "'" && value.at(-1) === "'") {
+        return value.slice(1, -1).replaceAll("''", "'");
+    } else if (value.length >= 2 && value[0] === '"' && value.at(-1) === '"') {
+        return JSON.parse(value);
+    }
+    return value;
+}
 
-                case 2:
-                    newStyle.fontWeight = "lighter";
-                    break;
+/**
+ * splitOutsideQuotes splits a string on the separator, ignoring separators in quoted strings.
+ */
+function splitOutsideQuotes(s: string, separator: string): string[] {
+    const parts: string[] = [];
+    let quote = "";
+    let start = 0;
+    for (let i = 0; i < s.length; ++i) {
+        const c = s[i];
+        if (quote !== "") {
+            if (c === "\\" && quote === '"') ++i;
+            else if (c === quote) quote = "";
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === separator) {
+            parts.push(s.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(s.slice(start));
+    return parts;
+}
 
-                case 3:
-                    newStyle.fontStyle = "italic";
-                    break;
+/**
+ * withoutComment removes a comment (starting with "#") from a line.
+ */
+function withoutComment(line: string, requireSpace: boolean): string {
+    const parts = splitOutsideQuotes(line, "#");
+    let result = parts[0];
+    for (let i = 1; i < parts.length; ++i) {
+        // In YAML, "#" only starts a comment at the beginning or after whitespace
+        if (!requireSpace || result === "" || /\s$/.test(result)) break;
+        result += "#" + parts[i];
+    }
+    return result.trimEnd();
+}
 
-                case 4:
-                    newStyle.textDecorationUnderline = true;
-                    break;
+/**
+ * parseFlowValue parses a TOML or YAML value: a scalar, an inline table or flow mapping
+ * (`{ a = 1, b = 2 }` or `{ a: 1, b: 2 }`) or an array of those.
+ */
+function parseFlowValue(value: string, keySeparator: string): unknown {
+    value = value.trim();
+    if (value.startsWith("[") && value.endsWith("]")) {
+        const inner = value.slice(1, -1).trim();
+        if (inner === "") return [];
+        return splitFlowItems(inner).map((item) => parseFlowValue(item, keySeparator));
+    } else if (value.startsWith("{") && value.endsWith("}")) {
+        const table: Record<string, unknown> = {};
+        for (const item of splitFlowItems(value.slice(1, -1))) {
+            if (item.trim() === "") continue;
+            const [key, ...rest] = splitOutsideQuotes(item, keySeparator);
+            table[parseScalar(key)] = parseFlowValue(rest.join(keySeparator), keySeparator);
+        }
+        return table;
+    }
+    return parseScalar(value);
+}
 
-                case 9:
-                    newStyle.textDecorationLineThrough = true;
-                    break;
+/**
+ * splitFlowItems splits the contents of an array or an inline table on top-level commas.
+ */
+function splitFlowItems(s: string): string[] {
+    const items: string[] = [];
+    let quote = "";
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < s.length; ++i) {
+        const c = s[i];
+        if (quote !== "") {
+            if (c === "\\" && quote === '"') ++i;
+            else if (c === quote) quote = "";
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === "{" || c === "[") {
+            ++depth;
+        } else if (c === "}" || c === "]") {
+            --depth;
+        } else if (c === "," && depth === 0) {
+            items.push(s.slice(start, i));
+            start = i + 1;
+        }
+    }
+    items.push(s.slice(start));
+    return items.filter((item) => item.trim() !== "");
+}
 
-                case 22:
-                    newStyle.fontWeight = "";
-                    break;
+/**
+ * parseTomlSubset parses the subset of TOML used by color configurations:
+ * tables, arrays of tables and (possibly dotted) keys with scalar, inline table
+ * or single-line array values.
+ */
+function parseTomlSubset(text: string): Record<string, unknown> {
+    const root: Record<string, unknown> = {};
+    let table = root;
+
+    const descend = (from: Record<string, unknown>, path: string[]) => {
+        for (const key of path) {
+            let next = from[key];
+            if (Array.isArray(next)) next = next.at(-1);
+            if (asRecord(next) === undefined) {
+                next = {};
+                from[key] = next;
+            }
+            from = next as Record<string, unknown>;
+        }
+        return from;
+    };
+    const keyPath = (key: string) => splitOutsideQuotes(key, ".").map(parseScalar);
+
+    for (const [i, rawLine] of text.split("\n").entries()) {
+        const line = withoutComment(rawLine, false).trim();
+        if (line === "") continue;
+
+        let m = line.match(/^\[\[(.+)\]\]$/);
+        if (m !== null) {
+            const path = keyPath(m[1]);
+            const parent = descend(root, path.slice(0, -1));
+            const key = path.at(-1)!;
+            if (!Array.isArray(parent[key])) parent[key] = [];
+            table = {};
+            (parent[key] as unknown[]).push(table);
+            continue;
+        }
 
-                case 23:
-                    newStyle.fontStyle = "";
-                    break;
+        m = line.match(/^\[(.+)\]$/);
+        if (m !== null) {
+            table = descend(root, keyPath(m[1]));
+            continue;
+        }
 
-                case 24:
-                    newStyle.textDecorationUnderline = false;
-                    break;
+        const [key, ...value] = splitOutsideQuotes(line, "=");
+        if (value.length === 0) throw new SyntaxError(`[sgrp] Invalid TOML on line ${i + 1}`);
+        const path = keyPath(key);
+        descend(table, path.slice(0, -1))[path.at(-1)!] = parseFlowValue(value.join("="), "=");
+    }
 
-                case 29:
-                    newStyle.textDecorationLineThrough = false;
-                    break;
+    return root;
+}
 
-                case 30:
-                    newStyle.color = this.#palette.standard.black;
-                    break;
+/**
+ * parseYamlSubset parses the subset of YAML used by color configurations:
+ * block mappings and sequences, with scalar or flow values.
+ */
+function parseYamlSubset(text: string): unknown {
+    const lines: { indent: number; text: string; number: number }[] = [];
+    for (const [i, rawLine] of text.split("\n").entries()) {
+        const line = withoutComment(rawLine, true);
+        if (line.trim() === "" || line.trim() === "---") continue;
+        lines.push({
+            indent: line.length - line.trimStart().length,
+            text: line.trim(),
+            number: i + 1,
+        });
+    }
 
-                case 31:
-                    newStyle.color = this.#palette.standard.red;
-                    break;
+    let pos = 0;
+    const isSequenceItem = (s: string) => s === "-" || s.startsWith("- ");
 
-                case 32:
-                    newStyle.color = this.#palette.standard.green;
-                    break;
+    const parseNode = (indent: number): unknown => {
+        if (pos >= lines.length || lines[pos].indent < indent) return null;
+        return isSequenceItem(lines[pos].text)
+            ? parseSequence(lines[pos].indent)
+            : parseMapping(lines[pos].indent);
+    };
 
-                case 33:
-                    newStyle.color = this.#palette.standard.yellow;
-                    break;
+    const parseMapping = (indent: number): Record<string, unknown> => {
+        const mapping: Record<string, unknown> = {};
+        while (
+            pos < lines.length && lines[pos].indent === indent && !isSequenceItem(lines[pos].text)
+        ) {
+            const line = lines[pos++];
+            const [key, ...rest] = splitOutsideQuotes(line.text, ":");
+            const value = rest.join(":").trim();
+            if (rest.length === 0) {
+                throw new SyntaxError(`[sgrp] Invalid YAML on line ${line.number}`);
+            } else if (value !== "") {
+                mapping[parseScalar(key)] = parseFlowValue(value, ":");
+            } else if (pos < lines.length && isSequenceItem(lines[pos].text)) {
+                // Sequences may be indented at the same level as their key
+                mapping[parseScalar(key)] = parseNode(indent);
+            } else {
+                mapping[parseScalar(key)] = parseNode(indent + 1);
+            }
+        }
+        return mapping;
+    };
 
-                case 34:
-                    newStyle.color = this.#palette.standard.blue;
-                    break;
+    const parseSequence = (indent: number): unknown[] => {
+        const sequence: unknown[] = [];
+        while (
+            pos < lines.length && lines[pos].indent === indent && isSequenceItem(lines[pos].text)
+        ) {
+            const line = lines[pos];
+            const item = line.text.slice(1).trimStart();
+            if (item === "") {
+                ++pos;
+                sequence.push(parseNode(indent + 1));
+            } else if (!item.startsWith("{") && splitOutsideQuotes(item, ":").length > 1) {
+                // "- key: value" starts a mapping, indented at the position of the key
+                lines[pos] = {
+                    indent: indent + line.text.length - item.length,
+                    text: item,
+                    number: line.number,
+                };
+                sequence.push(parseMapping(lines[pos].indent));
+            } else {
+                ++pos;
+                sequence.push(parseFlowValue(item, ":"));
+            }
+        }
+        return sequence;
+    };
 
-                case 35:
-                    newStyle.color = this.#palette.standard.magenta;
-                    break;
+    const root = parseNode(0);
+    if (pos < lines.length) {
+        throw new SyntaxError(`[sgrp] Invalid YAML indentation on line ${lines[pos].number}`);
+    }
+    return root;
+}
 
-                case 36:
-                    newStyle.color = this.#palette.standard.cyan;
-                    break;
+/**
+ * ControlStringKind identifies the type of a {@link ControlString} by its introducer:
+ * "dcs" (Device Control String, `ESC P`), "osc" (Operating System Command, `ESC ]`),
+ * "apc" (Application Program Command, `ESC _`), "pm" (Privacy Message, `ESC ^`)
+ * or "sos" (Start of String, `ESC X`).
+ *
+ * @typedef {"dcs" | "osc" | "apc" | "pm" | "sos"} ControlStringKind
+ */
+export type ControlStringKind = "dcs" | "osc" | "apc" | "pm" | "sos";
 
-                case 37:
-                    newStyle.color = this.#palette.standard.white;
-                    break;
+/**
+ * ControlString is a DCS, OSC, APC, PM or SOS string sequence, terminated by
+ * BEL (`\x07`) or ST (`ESC \`), which was removed from the output.
+ *
+ * For OSC strings, identifier is the part before the first semicolon (e.g. "0" for
+ * window title changes, "133" for shell integration marks or "8" for hyperlinks)
+ * and payload is the part after the semicolon.
+ *
+ * For DCS strings, identifier contains the parameter, intermediate and final bytes
+ * (e.g. "0;1;0q" for sixel images or "+q" for XTGETTCAP) and payload is the following data.
+ *
+ * For APC, PM and SOS strings, identifier is empty and payload contains the whole string.
+ *
+ * truncated is set on strings longer than 4096 characters (e.g. sixel images),
+ * which are reported with only their first 4096 characters. Truncated OSC 8 hyperlinks
+ * are not applied.
+ *
+ * @typedef {object} ControlString
+ * @property {ControlStringKind} kind
+ * @property {string} identifier
+ * @property {string} payload
+ * @property {boolean} [truncated]
+ */
+export interface ControlString {
+    kind: ControlStringKind;
+    identifier: string;
+    payload: string;
+    truncated?: boolean;
+}
 
-                case 38: {
-                    const result = this.parseCustomColor(parameters, i);
-                    if (result === null) {
-                        return newStyle;
-                    } else {
-                        [i, newStyle.color] = result;
-                    }
-                    break;
-                }
+/**
+ * SegmentStyle is a plain, serializable description of the style of a {@link Segment}.
+ *
+ * Colors are resolved to CSS color strings, with an empty string representing the default color.
+ * If inverse is set, color and backgroundColor are already swapped. Concealed text still has its
+ * color set - the concealed flag needs to be respected separately.
+ *
+ * @typedef {object} SegmentStyle
+ * @property {boolean} bold
+ * @property {boolean} faint
+ * @property {boolean} italic
+ * @property {"" | "single" | "double" | "curly" | "dotted" | "dashed"} underline
+ * @property {boolean} strikethrough
+ * @property {boolean} inverse
+ * @property {boolean} concealed
+ * @property {string} color
+ * @property {string} backgroundColor
+ * @property {string} underlineColor
+ */
+export interface SegmentStyle {
+    bold: boolean;
+    faint: boolean;
+    italic: boolean;
+    underline: "" | "single" | "double" | "curly" | "dotted" | "dashed";
+    strikethrough: boolean;
+    inverse: boolean;
+    concealed: boolean;
+    color: string;
+    backgroundColor: string;
+    underlineColor: string;
+}
 
-                case 39:
-                    newStyle.color = "";
-                    break;
+/**
+ * Segment is a run of text sharing the same style and hyperlink.
+ *
+ * hyperlink is the target of an OSC 8 hyperlink, or an empty string if the text isn't linked.
+ *
+ * Style objects are frozen and shared between segments.
+ *
+ * @typedef {object} Segment
+ * @property {string} text
+ * @property {SegmentStyle} style
+ * @property {string} hyperlink
+ */
+export interface Segment {
+    text: string;
+    style: Readonly<SegmentStyle>;
+    hyperlink: string;
+}
 
-                case 40:
-                    newStyle.backgroundColor = this.#palette.standard.black;
-                    break;
+/**
+ * Renderer is the interface for custom output backends, driven by {@link SGRToRendererSink}.
+ *
+ * onText is called with (unescaped) text, which should be rendered with the style and hyperlink
+ * from the last onStyleChange and onHyperlinkChange calls. Initially, the style is the default
+ * (plain) style and there's no hyperlink.
+ *
+ * onStyleChange is called whenever the style of the following text changes, with both the
+ * previous and the next style. onHyperlinkChange is called whenever the OSC 8 hyperlink
+ * of the following text changes, with empty strings representing no hyperlink.
+ *
+ * onFlush, if present, is called after every processed input chunk. onFinalize,
+ * if present, is called once at the end of the stream, after all text has been passed to onText.
+ *
+ * @typedef {object} Renderer
+ */
+export interface Renderer {
+    onText(text: string): void;
+    onStyleChange(previous: Readonly<SegmentStyle>, next: Readonly<SegmentStyle>): void;
+    onHyperlinkChange(previous: string, next: string): void;
+    onFlush?(): void;
+    onFinalize?(): void;
+}
 
-                case 41:
-                    newStyle.backgroundColor = this.#palette.standard.red;
-                    break;
+/**
+ * Options customize the ANSI SGR to HTML span conversion process.
+ *
+ * palette overrides colors from {@link defaultPalette}.
+ *
+ * escapeControlCodes, if set to true, will cause control codes \x00-\x07 and \x0E-\x1F
+ * to be replaced by corresponding [control pictures](https://en.wikipedia.org/wiki/Control_Pictures)
+ * (U+2400-U+241F).
+ *
+ * styleMode determines how styles are attached to span elements. "inline" (the default)
+ * writes every property into the style attribute, while "class" only sets class names
+ * (e.g. `sgrp-fg-red sgrp-bold`), which need to be backed by a stylesheet generated
+ * with {@link generateStylesheet}. The "class" mode works under a Content-Security-Policy
+ * which disallows inline styles.
+ *
+ * classPrefix is prepended to every class name generated in the "class" styleMode,
+ * and to the custom properties referenced with colorVariables. It must consist
+ * of letters, digits, underscores and dashes, and can't start with a digit.
+ *
+ * allowedLinkSchemes lists the URL schemes which OSC 8 hyperlinks may use. Links to
+ * any other scheme (and invalid URLs) are ignored - their text is rendered without
+ * an anchor element.
+ *
+ * linkRel and linkTarget, if set, are used as the rel and target attributes of
+ * the anchor elements created for OSC 8 hyperlinks.
+ *
+ * lineEditing, if set to true, makes carriage returns (\r), backspaces (\b)
+ * and erase-in-line sequences (CSI K) edit the current line, like a terminal would.
+ * This collapses progress bars into their final state, at the cost of only
+ * outputting lines once they are complete (or at the end of the stream).
+ *
+ * screen enables emulation of a terminal screen, screenWidth characters wide and
+ * screenHeight lines tall. On top of the lineEditing features, cursor movement
+ * (CSI A, B, C, D, G and H) and erase-in-display (CSI J) sequences are applied to the screen.
+ * With "final", only the final state of the screen is outputted (at the end of the stream),
+ * while "transcript" additionally outputs every line scrolled off the top of the screen.
+ * Both dimensions must be positive integers.
+ *
+ * discardUnknownCsi, if set to true, causes well-formed CSI sequences which are not understood
+ * by sgrp to be removed from the output, instead of being passed as-is. Malformed CSI
+ * sequences are always passed as-is.
+ *
+ * onControlString, if provided, is called with every DCS, OSC, APC, PM and SOS string
+ * encountered in the input. Such strings are always removed from the output, except
+ * for OSC 8 hyperlinks, which are additionally converted to anchor elements.
+ *
+ * invalidUtf8 determines how {@link SGRByteDecoder} handles invalid UTF-8 sequences -
+ * either by replacing them with U+FFFD REPLACEMENT CHARACTER ("replace"), or by decoding
+ * every invalid byte as a Latin-1 character ("latin1"). Invalid bytes in the C1 control range
+ * (0x80-0x9F) are still replaced with U+FFFD.
+ *
+ * lines, if set to true, makes {@link SGRToStringTransformer} and {@link SGRToElementSink}
+ * wrap every line of output in its own `<span class="sgrp-line" id="L1">` element.
+ * Styles and hyperlinks are closed at the end of every line and re-opened on the next one,
+ * and the newlines themselves are placed between the line elements.
+ * Line ids consist of lineIdPrefix followed by the 1-based line number, making it possible
+ * to link to a specific line (e.g. `#L123`).
+ *
+ * lineNumbers, if set to true (and lines is enabled), prepends every line with
+ * a `<a class="sgrp-line-number" href="#L1">1</a>` gutter linking to the line itself.
+ *
+ * lineClass, if provided, is called with the 1-based number of every line and can return
+ * additional class names for the line element (or an empty string). This can be used
+ * to highlight ranges of lines.
+ *
+ * batchSize is the maximum number of characters {@link SGRToElementSink} processes
+ * before appending the result to the document. Longer chunks are split into multiple batches,
+ * and the sink yields to the event loop (on the next animation frame) between them,
+ * keeping the page responsive. Batches never split surrogate pairs, so with a batchSize
+ * of 1 an astral character is processed in a single batch of 2.
+ *
+ * onProgress, if provided, is called by {@link SGRToElementSink} after every batch with
+ * the total number of characters processed so far.
+ *
+ * rowHeight is the height (in pixels) of every row rendered by {@link SGRLogViewer}.
+ * If not provided, it's measured on the first render.
+ *
+ * boldIsBright, if set to true, makes bold text (SGR 1) with one of the standard colors
+ * (SGR 30-37, or 38;5;0-7) use the corresponding bright color instead, like most terminals do.
+ *
+ * faintMode determines how faint text (SGR 2) is rendered - either with `font-weight: lighter`
+ * ("lighter", the default), or by blending its color with transparency ("dim"). The latter
+ * is visible with monospace fonts which don't have a lighter variant.
+ *
+ * minimumContrast, if set, is the minimum [WCAG contrast ratio](https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio)
+ * (from 1 to 21, e.g. 4.5 for WCAG AA) between the text and its background. Foreground colors
+ * with a lower contrast are made lighter or darker (keeping their hue) until the ratio is met.
+ * Faint text dimmed with faintMode "dim" is checked as displayed, and isn't dimmed
+ * if that would break the ratio.
+ * In the "class" styleMode, adjusted colors are replaced by the nearest color
+ * from the 256-color table which meets the ratio.
+ * Text without a background color is checked against pageBackground, which defaults to
+ * the palette's background color. Text in the default foreground color is checked
+ * as the palette's foreground color, unless it also has the default background - it's then
+ * styled by the page. Colors which can't be determined (`transparent`, `currentColor`
+ * and `var()` references) are not adjusted.
+ *
+ * colorVariables, if set to true, makes HTML and DOM output refer to the 16 standard and bright
+ * colors and the default foreground and background colors through CSS custom properties
+ * (e.g. `var(--sgrp-red)`), named after classPrefix, instead of using colors from the palette.
+ * The properties need to be defined with {@link generateColorVariables}; changing them
+ * re-themes already rendered output. Segments always use colors from the palette.
+ *
+ * @typedef {object} Options
+ * @property {PartialPalette} [palette]
+ * @property {boolean} [escapeControlCodes=false]
+ * @property {"inline" | "class"} [styleMode="inline"]
+ * @property {string} [classPrefix="sgrp-"]
+ * @property {string[]} [allowedLinkSchemes=["http", "https"]]
+ * @property {string} [linkRel]
+ * @property {string} [linkTarget]
+ * @property {boolean} [lineEditing=false]
+ * @property {"final" | "transcript"} [screen]
+ * @property {number} [screenWidth=80]
+ * @property {number} [screenHeight=24]
+ * @property {boolean} [discardUnknownCsi=false]
+ * @property {(s: ControlString) => void} [onControlString]
+ * @property {"replace" | "latin1"} [invalidUtf8="replace"]
+ * @property {boolean} [lines=false]
+ * @property {boolean} [lineNumbers=false]
+ * @property {string} [lineIdPrefix="L"]
+ * @property {(lineNumber: number) => string} [lineClass]
+ * @property {number} [batchSize=65536]
+ * @property {(processed: number) => void} [onProgress]
+ * @property {number} [rowHeight]
+ * @property {boolean} [boldIsBright=false]
+ * @property {"lighter" | "dim"} [faintMode="lighter"]
+ * @property {boolean} [colorVariables=false]
+ * @property {number} [minimumContrast]
+ * @property {string} [pageBackground]
+ */
+export interface Options {
+    palette?: PartialPalette;
+    escapeControlCodes?: boolean;
+    styleMode?: "inline" | "class";
+    classPrefix?: string;
+    allowedLinkSchemes?: string[];
+    linkRel?: string;
+    linkTarget?: string;
+    lineEditing?: boolean;
+    screen?: "final" | "transcript";
+    screenWidth?: number;
+    screenHeight?: number;
+    discardUnknownCsi?: boolean;
+    onControlString?: (s: ControlString) => void;
+    invalidUtf8?: "replace" | "latin1";
+    lines?: boolean;
+    lineNumbers?: boolean;
+    lineIdPrefix?: string;
+    lineClass?: (lineNumber: number) => string;
+    batchSize?: number;
+    onProgress?: (processed: number) => void;
+    rowHeight?: number;
+    boldIsBright?: boolean;
+    faintMode?: "lighter" | "dim";
+    colorVariables?: boolean;
+    minimumContrast?: number;
+    pageBackground?: string;
+}
 
-                case 42:
-                    newStyle.backgroundColor = this.#palette.standard.green;
-                    break;
+const colorNames: readonly (keyof Colors)[] = [
+    "black",
+    "red",
+    "green",
+    "yellow",
+    "blue",
+    "magenta",
+    "cyan",
+    "white",
+];
 
-                case 43:
-                    newStyle.backgroundColor = this.#palette.standard.yellow;
-                    break;
+/**
+ * Colors are kept unresolved until rendering - with -1 representing the default color,
+ * 0-255 representing entries from the 256-color table and {@link trueColorFlag}
+ * set for 24-bit colors, with the RGB value in the lowest 24 bits.
+ *
+ * When the default colors need to be explicitly written (e.g. for inverse text),
+ * -2 represents the palette's default foreground and -3 - the default background.
+ */
+const defaultColor = -1;
+const defaultForeground = -2;
+const defaultBackground = -3;
+const trueColorFlag = 0x1000000;
 
-                case 44:
-                    newStyle.backgroundColor = this.#palette.standard.blue;
-                    break;
+const isTrueColor = (c: number) => (c & trueColorFlag) !== 0;
 
-                case 45:
-                    newStyle.backgroundColor = this.#palette.standard.magenta;
-                    break;
+const trueColor = (r: number, g: number, b: number) => trueColorFlag | (r << 16) | (g << 8) | b;
 
-                case 46:
-                    newStyle.backgroundColor = this.#palette.standard.cyan;
-                    break;
+/**
+ * cubeLevels are the values of every component of the 6x6x6 color cube,
+ * as used by xterm.
+ */
+const cubeLevels: readonly number[] = [0, 95, 135, 175, 215, 255];
+
+function extendedColorComponents(c: number): [number, number, number] {
+    if (isTrueColor(c)) {
+        return [(c >> 16) & 0xFF, (c >> 8) & 0xFF, c & 0xFF];
+    } else if (c >= 16 && c <= 231) {
+        let rest = c - 16;
+        const b = cubeLevels[rest % 6];
+        rest = (rest / 6) | 0;
+        const g = cubeLevels[rest % 6];
+        rest = (rest / 6) | 0;
+        const r = cubeLevels[rest % 6];
+        return [r, g, b];
+    } else if (c >= 232 && c <= 255) {
+        const v = 8 + (c - 232) * 10;
+        return [v, v, v];
+    }
+    throw new RangeError(`not an extended color: ${c}`);
+}
 
-                case 47:
-                    newStyle.backgroundColor = this.#palette.standard.white;
-                    break;
+function resolveColor(c: number, palette: Palette): string {
+    if (c === defaultForeground) {
+        return palette.foreground;
+    } else if (c === defaultBackground) {
+        return palette.background;
+    } else if (c < 0) {
+        return "";
+    } else if (c < 256 && palette.indexed?.[c] !== undefined) {
+        return palette.indexed[c];
+    } else if (c < 8) {
+        return palette.standard[colorNames[c]];
+    } else if (c < 16) {
+        return palette.bright[colorNames[c - 8]];
+    }
+    const [r, g, b] = extendedColorComponents(c);
+    return `rgb(${r},${g},${b})`;
+}
 
-                case 48: {
-                    const result = this.parseCustomColor(parameters, i);
-                    if (result === null) {
-                        return newStyle;
-                    } else {
-                        [i, newStyle.backgroundColor] = result;
-                    }
-                    break;
-                }
+/**
+ * nearestExtendedColor approximates a 24-bit color with the closest entry
+ * from the 6x6x6 color cube or the gray-scale ramp of the 256-color table.
+ */
+function nearestExtendedColor(c: number): number {
+    const [r, g, b] = extendedColorComponents(c);
+    const cube = 16 + 36 * nearestCubeLevel(r) + 6 * nearestCubeLevel(g) + nearestCubeLevel(b);
+    const gray = 232 + Math.min(23, Math.max(0, Math.round(((r + g + b) / 3 - 8) / 10)));
+
+    const distance = (o: number) => {
+        const [or, og, ob] = extendedColorComponents(o);
+        return (r - or) ** 2 + (g - og) ** 2 + (b - ob) ** 2;
+    };
+    return distance(gray) < distance(cube) ? gray : cube;
+}
 
-                case 49:
-                    newStyle.backgroundColor = "";
-                    break;
+function nearestCubeLevel(v: number): number {
+    let nearest = 0;
+    for (let i = 1; i < cubeLevels.length; ++i) {
+        if (Math.abs(cubeLevels[i] - v) < Math.abs(cubeLevels[nearest] - v)) nearest = i;
+    }
+    return nearest;
+}
 
-                case 90:
-                    newStyle.color = this.#palette.bright.black;
-                    break;
+function colorClassSuffix(c: number): string {
+    if (c === defaultForeground) {
+        return "foreground";
+    } else if (c === defaultBackground) {
+        return "background";
+    } else if (c < 8) {
+        return colorNames[c];
+    } else if (c < 16) {
+        return `bright-${colorNames[c - 8]}`;
+    } else if (isTrueColor(c)) {
+        return nearestExtendedColor(c).toString();
+    }
+    return c.toString();
+}
 
-                case 91:
-                    newStyle.color = this.#palette.bright.red;
-                    break;
+/**
+ * variableColors are the colors which can be referenced through CSS custom properties,
+ * see {@link Options.colorVariables}.
+ */
+const variableColors: readonly number[] = [
+    defaultForeground,
+    defaultBackground,
+    ...Array(16).keys(),
+];
 
-                case 92:
-                    newStyle.color = this.#palette.bright.green;
-                    break;
+/**
+ * resolveCssPalette resolves the palette used for HTML and DOM output. With
+ * {@link Options.colorVariables}, colors which can be referenced through CSS custom properties
+ * are replaced by `var(--sgrp-...)` references.
+ */
+function resolveCssPalette(options: Options): Palette {
+    const palette = resolvePalette(options.palette);
+    if (!options.colorVariables) return palette;
+
+    const prefix = resolveClassPrefix(options);
+    const variable = (c: number) => `var(--${prefix}${colorClassSuffix(c)})`;
+    const colors = (offset: number): Colors => ({
+        black: variable(offset),
+        red: variable(offset + 1),
+        green: variable(offset + 2),
+        yellow: variable(offset + 3),
+        blue: variable(offset + 4),
+        magenta: variable(offset + 5),
+        cyan: variable(offset + 6),
+        white: variable(offset + 7),
+    });
+
+    const variables: Palette = {
+        standard: colors(0),
+        bright: colors(8),
+        foreground: variable(defaultForeground),
+        background: variable(defaultBackground),
+    };
+    if (palette.indexed !== undefined) {
+        // Overrides of the first 16 colors are applied to the custom properties instead
+        variables.indexed = Object.fromEntries(
+            Object.entries(palette.indexed).filter(([c]) => Number(c) >= 16),
+        );
+    }
+    return variables;
+}
 
-                case 93:
-                    newStyle.color = this.#palette.bright.yellow;
-                    break;
+/**
+ * UnderlineStyle is the value of the text-decoration-style CSS property
+ * for underlined text, or an empty string for text without an underline.
+ */
+type UnderlineStyle = "" | "solid" | "double" | "wavy" | "dotted" | "dashed";
 
-                case 94:
-                    newStyle.color = this.#palette.bright.blue;
-                    break;
+/**
+ * underlineStyles maps the sub-parameter of SGR 4 (as in `4:3`) to an {@link UnderlineStyle}.
+ */
+const underlineStyles: readonly UnderlineStyle[] = [
+    "",
+    "solid",
+    "double",
+    "wavy",
+    "dotted",
+    "dashed",
+];
+
+const segmentUnderlines: Record<UnderlineStyle, SegmentStyle["underline"]> = {
+    "": "",
+    solid: "single",
+    double: "double",
+    wavy: "curly",
+    dotted: "dotted",
+    dashed: "dashed",
+};
 
-                case 95:
-                    newStyle.color = this.#palette.bright.magenta;
-                    break;
+const underlineClassSuffixes: Record<UnderlineStyle, string> = {
+    "": "",
+    solid: "",
+    double: "double",
+    wavy: "curly",
+    dotted: "dotted",
+    dashed: "dashed",
+};
 
-                case 96:
-                    newStyle.color = this.#palette.bright.cyan;
-                    break;
+/**
+ * dimColor blends a CSS color with transparency, used for faint text
+ * with {@link Options.faintMode} set to "dim".
+ */
+const dimColor = (color: string) => `color-mix(in srgb,${color} 50%,transparent)`;
 
-                case 97:
-                    newStyle.color = this.#palette.bright.white;
-                    break;
+class Style {
+    fontWeight: "" | "bolder" | "lighter" = "";
+    fontStyle: "" | "italic" = "";
+    textDecorationUnderline: UnderlineStyle = "";
+    textDecorationLineThrough: boolean = false;
+    textDecorationColor: number = defaultColor;
+    color: number = defaultColor;
+    backgroundColor: number = defaultColor;
+    inverse: boolean = false;
+    concealed: boolean = false;
+    dimmed: boolean = false;
 
-                case 100:
-                    newStyle.backgroundColor = this.#palette.bright.black;
-                    break;
+    copy(): Style {
+        const n = new Style();
+        n.fontWeight = this.fontWeight;
+        n.fontStyle = this.fontStyle;
+        n.textDecorationUnderline = this.textDecorationUnderline;
+        n.textDecorationLineThrough = this.textDecorationLineThrough;
+        n.textDecorationColor = this.textDecorationColor;
+        n.color = this.color;
+        n.backgroundColor = this.backgroundColor;
+        n.inverse = this.inverse;
+        n.concealed = this.concealed;
+        n.dimmed = this.dimmed;
+        return n;
+    }
 
-                case 101:
-                    newStyle.backgroundColor = this.#palette.bright.red;
-                    break;
+    equals(o: Style): boolean {
+        return this.fontWeight === o.fontWeight && this.fontStyle === o.fontStyle &&
+            this.textDecorationUnderline === o.textDecorationUnderline &&
+            this.textDecorationLineThrough === o.textDecorationLineThrough &&
+            this.textDecorationColor === o.textDecorationColor &&
+            this.color === o.color && this.backgroundColor === o.backgroundColor &&
+            this.inverse === o.inverse && this.concealed === o.concealed &&
+            this.dimmed === o.dimmed;
+    }
 
-                case 102:
-                    newStyle.backgroundColor = this.#palette.bright.green;
-                    break;
+    /**
+     * key returns a string uniquely identifying the style, equal for all equal styles.
+     */
+    key(): string {
+        return `${this.fontWeight};${this.fontStyle};${this.textDecorationUnderline};` +
+            `${this.textDecorationLineThrough};${this.textDecorationColor};${this.color};` +
+            `${this.backgroundColor};${this.inverse};${this.concealed};${this.dimmed}`;
+    }
 
-                case 103:
-                    newStyle.backgroundColor = this.#palette.bright.yellow;
-                    break;
+    isEmpty(): boolean {
+        return this.fontWeight === "" && this.fontStyle === "" &&
+            this.textDecorationUnderline === "" && !this.textDecorationLineThrough &&
+            this.textDecorationColor === defaultColor && this.color === defaultColor &&
+            this.backgroundColor === defaultColor && !this.inverse && !this.concealed &&
+            !this.dimmed;
+    }
 
-                case 104:
-                    newStyle.backgroundColor = this.#palette.bright.blue;
-                    break;
+    /**
+     * effectiveColors returns the foreground and background colors, swapped if
+     * inverse is set. When swapping, the default colors are replaced by
+     * the palette's default foreground and background colors.
+     */
+    effectiveColors(): [number, number] {
+        if (!this.inverse) return [this.color, this.backgroundColor];
+        return [
+            this.backgroundColor === defaultColor ? defaultBackground : this.backgroundColor,
+            this.color === defaultColor ? defaultForeground : this.color,
+        ];
+    }
 
-                case 105:
-                    newStyle.backgroundColor = this.#palette.bright.magenta;
-                    break;
+    toCssStyle(palette: Palette): string {
+        const parts = ['style="'];
+        const [color, backgroundColor] = this.effectiveColors();
 
-                case 106:
-                    newStyle.backgroundColor = this.#palette.bright.cyan;
+        if (this.fontWeight !== "") {
+            parts.push("font-weight:");
+            parts.push(this.fontWeight);
+            parts.push(";");
+        }
+
+        if (this.fontStyle !== "") {
+            parts.push("font-style:");
+            parts.push(this.fontStyle);
+            parts.push(";");
+        }
+
+        if (this.textDecorationUnderline !== "" || this.textDecorationLineThrough) {
+            parts.push("text-decoration:");
+            parts.push(this.textDecoration);
+            parts.push(";");
+        }
+
+        if (this.textDecorationUnderline !== "" && this.textDecorationUnderline !== "solid") {
+            parts.push("text-decoration-style:");
+            parts.push(this.textDecorationUnderline);
+            parts.push(";");
+        }
+
+        if (this.textDecorationColor !== defaultColor) {
+            parts.push("text-decoration-color:");
+            parts.push(escapeHtml(resolveColor(this.textDecorationColor, palette)));
+            parts.push(";");
+        }
+
+        if (this.concealed) {
+            parts.push("color:transparent;");
+        } else if (this.dimmed) {
+            parts.push("color:");
+            parts.push(escapeHtml(dimColor(resolveColor(color, palette) || "currentColor")));
+            parts.push(";");
+        } else if (color !== defaultColor) {
+            parts.push("color:");
+            parts.push(escapeHtml(resolveColor(color, palette)));
+            parts.push(";");
+        }
+
+        if (backgroundColor !== defaultColor) {
+            parts.push("background-color:");
+            parts.push(escapeHtml(resolveColor(backgroundColor, palette)));
+            parts.push(";");
+        }
+
+        parts.push('"');
+        return parts.join("");
+    }
+
+    toClassAttribute(prefix: string): string {
+        return `class="${escapeHtml(this.toClassName(prefix))}"`;
+    }
+
+    toClassName(prefix: string): string {
+        const classes: string[] = [];
+        const [color, backgroundColor] = this.effectiveColors();
+
+        if (this.fontWeight === "bolder") {
+            classes.push(`${prefix}bold`);
+        } else if (this.fontWeight === "lighter") {
+            classes.push(`${prefix}faint`);
+        }
+
+        if (this.fontStyle === "italic") {
+            classes.push(`${prefix}italic`);
+        }
+
+        if (this.textDecorationUnderline !== "") {
+            classes.push(`${prefix}underline`);
+        }
+
+        if (this.textDecorationUnderline !== "" && this.textDecorationUnderline !== "solid") {
+            classes.push(
+                `${prefix}underline-${underlineClassSuffixes[this.textDecorationUnderline]}`,
+            );
+        }
+
+        if (this.textDecorationLineThrough) {
+            classes.push(`${prefix}strike`);
+        }
+
+        if (this.textDecorationColor !== defaultColor) {
+            classes.push(`${prefix}ul-${colorClassSuffix(this.textDecorationColor)}`);
+        }
+
+        if (color !== defaultColor) {
+            classes.push(`${prefix}fg-${colorClassSuffix(color)}`);
+        }
+
+        if (backgroundColor !== defaultColor) {
+            classes.push(`${prefix}bg-${colorClassSuffix(backgroundColor)}`);
+        }
+
+        if (this.concealed) {
+            classes.push(`${prefix}concealed`);
+        } else if (this.dimmed) {
+            classes.push(`${prefix}dim`);
+        }
+
+        return classes.join(" ");
+    }
+
+    applyTo(s: CSSStyleDeclaration, palette: Palette): void {
+        const [color, backgroundColor] = this.effectiveColors();
+        s.fontWeight = this.fontWeight;
+        s.fontStyle = this.fontStyle;
+        s.textDecoration = this.textDecoration;
+        s.textDecorationStyle = this.textDecorationUnderline === "solid"
+            ? ""
+            : this.textDecorationUnderline;
+        s.textDecorationColor = resolveColor(this.textDecorationColor, palette);
+        if (this.concealed) {
+            s.color = "transparent";
+        } else if (this.dimmed) {
+            s.color = dimColor(resolveColor(color, palette) || "currentColor");
+        } else {
+            s.color = resolveColor(color, palette);
+        }
+        s.backgroundColor = resolveColor(backgroundColor, palette);
+    }
+
+    toSegmentStyle(palette: Palette): Readonly<SegmentStyle> {
+        const [color, backgroundColor] = this.effectiveColors();
+        return Object.freeze({
+            bold: this.fontWeight === "bolder",
+            faint: this.fontWeight === "lighter" || this.dimmed,
+            italic: this.fontStyle === "italic",
+            underline: segmentUnderlines[this.textDecorationUnderline],
+            strikethrough: this.textDecorationLineThrough,
+            inverse: this.inverse,
+            concealed: this.concealed,
+            color: resolveColor(color, palette),
+            backgroundColor: resolveColor(backgroundColor, palette),
+            underlineColor: resolveColor(this.textDecorationColor, palette),
+        });
+    }
+
+    get textDecoration(): string {
+        if (this.textDecorationUnderline !== "" && this.textDecorationLineThrough) {
+            return "underline line-through";
+        } else if (this.textDecorationUnderline !== "") {
+            return "underline";
+        } else if (this.textDecorationLineThrough) {
+            return "line-through";
+        }
+        return "";
+    }
+}
+
+/**
+ * generateStylesheet creates CSS rules backing the class names generated in the "class"
+ * {@link Options.styleMode}, using colors from the provided palette and class names
+ * with the provided prefix.
+ *
+ * All 256 indexed colors get a class, e.g. `sgrp-fg-red`, `sgrp-bg-bright-blue`
+ * or `sgrp-fg-182`. 24-bit colors can't be represented by a finite set of classes and are
+ * approximated by the nearest color from the 6x6x6 cube or the gray-scale ramp.
+ * The `sgrp-container` class applies the palette's default foreground and background colors,
+ * see {@link containerAttributes}.
+ *
+ * @param {Options} options - palette, classPrefix and colorVariables to use;
+ *     other options are ignored
+ * @returns {string} CSS stylesheet
+ */
+export function generateStylesheet(options: Options = {}): string {
+    const palette = resolveCssPalette(options);
+    const prefix = resolveClassPrefix(options);
+    const rules = [
+        `.${prefix}bold{font-weight:bolder}`,
+        `.${prefix}faint{font-weight:lighter}`,
+        `.${prefix}italic{font-style:italic}`,
+        `.${prefix}underline{text-decoration-line:underline}`,
+        `.${prefix}strike{text-decoration-line:line-through}`,
+        `.${prefix}underline.${prefix}strike{text-decoration-line:underline line-through}`,
+        `.${prefix}underline-double{text-decoration-style:double}`,
+        `.${prefix}underline-curly{text-decoration-style:wavy}`,
+        `.${prefix}underline-dotted{text-decoration-style:dotted}`,
+        `.${prefix}underline-dashed{text-decoration-style:dashed}`,
+    ];
+
+    // The default colors only need classes for inverse text
+    const colors = [defaultForeground, defaultBackground, ...Array(256).keys()];
+    for (const c of colors) {
+        const suffix = colorClassSuffix(c);
+        const value = resolveColor(c, palette);
+        rules.push(`.${prefix}fg-${suffix}{color:${value}}`);
+        rules.push(`.${prefix}bg-${suffix}{background-color:${value}}`);
+        if (c >= 0) rules.push(`.${prefix}ul-${suffix}{text-decoration-color:${value}}`);
+    }
+
+    // Must come after the color rules, with the combined selectors being more specific
+    rules.push(`.${prefix}dim{color:${dimColor("currentColor")}}`);
+    for (const c of colors) {
+        const value = dimColor(resolveColor(c, palette));
+        rules.push(`.${prefix}dim.${prefix}fg-${colorClassSuffix(c)}{color:${value}}`);
+    }
+
+    // Must come after the color rules to take precedence over them
+    rules.push(`.${prefix}concealed{color:transparent}`);
+
+    rules.push(`.${prefix}line-number{user-select:none}`);
+    rules.push(
+        `.${prefix}container{color:${palette.foreground};background-color:${palette.background}}`,
+    );
+
+    rules.push("");
+    return rules.join("\n");
+}
+
+/**
+ * containerAttributes returns the attributes for an HTML element containing the output
+ * (e.g. `<pre ${containerAttributes(options)}>`), so that the output looks like the chosen
+ * terminal theme regardless of the page's styles - with the foreground and background colors
+ * of the palette. In the "class" {@link Options.styleMode}, this is the `sgrp-container` class
+ * from {@link generateStylesheet}, otherwise an inline style attribute.
+ *
+ * @param {Options} options - palette, styleMode, classPrefix and colorVariables to use;
+ *     other options are ignored
+ * @returns {string} HTML attributes
+ */
+export function containerAttributes(options: Options = {}): string {
+    if (options.styleMode === "class") {
+        return `class="${resolveClassPrefix(options)}container"`;
+    }
+    const palette = resolveCssPalette(options);
+    const css = `color:${palette.foreground};background-color:${palette.background};`;
+    return `style="${escapeHtml(css)}"`;
+}
+
+/**
+ * styleContainer applies the foreground and background colors of the palette to an element
+ * containing the output, see {@link containerAttributes}.
+ *
+ * @param {HTMLElement} element - element containing the output
+ * @param {Options} options - palette, styleMode, classPrefix and colorVariables to use;
+ *     other options are ignored
+ */
+export function styleContainer(element: HTMLElement, options: Options = {}): void {
+    if (options.styleMode === "class") {
+        element.classList.add(`${resolveClassPrefix(options)}container`);
+    } else {
+        const palette = resolveCssPalette(options);
+        element.style.color = palette.foreground;
+        element.style.backgroundColor = palette.background;
+    }
+}
+
+/**
+ * generateColorVariables creates CSS rules defining the custom properties referenced
+ * with {@link Options.colorVariables} - the default foreground and background colors
+ * (`--sgrp-foreground`, `--sgrp-background`) and the 16 standard and bright colors
+ * (e.g. `--sgrp-red`, `--sgrp-bright-red`) - on the `:root` element.
+ *
+ * If darkPalette is provided, its colors are defined in a
+ * `@media (prefers-color-scheme: dark)` block, so that the output follows
+ * the color scheme preferred by the user.
+ *
+ * @param {Options} options - palette and classPrefix to use; other options are ignored
+ * @param {PartialPalette} [darkPalette] - palette to use with the dark color scheme
+ * @returns {string} CSS stylesheet
+ */
+export function generateColorVariables(
+    options: Options = {},
+    darkPalette?: PartialPalette,
+): string {
+    const prefix = resolveClassPrefix(options);
+    const declarations = (palette: Palette) =>
+        variableColors
+            .map((c) => `--${prefix}${colorClassSuffix(c)}:${resolveColor(c, palette)}`)
+            .join(";");
+
+    const rules = [`:root{${declarations(resolvePalette(options.palette))}}`];
+    if (darkPalette !== undefined) {
+        const dark = declarations(resolvePalette(darkPalette));
+        rules.push(`@media (prefers-color-scheme:dark){:root{${dark}}}`);
+    }
+
+    rules.push("");
+    return rules.join("\n");
+}
+
+/**
+ * Cell is a single character kept by a {@link Screen}, together with its attributes.
+ */
+interface Cell {
+    char: string;
+    style: Style;
+    hyperlink: string;
+}
+
+const blankCell: Cell = Object.freeze({ char: " ", style: new Style(), hyperlink: "" });
+const newlineCell: Cell = Object.freeze({ char: "\n", style: new Style(), hyperlink: "" });
+
+/**
+ * Screen is a grid of styled cells with a cursor, to which carriage returns, backspaces,
+ * cursor movement and erase sequences are applied, like a terminal would.
+ *
+ * Lines scrolled off the top of the screen are passed to the onScroll callback,
+ * while the rest of the screen is only passed to the onLine callback on flush.
+ *
+ * The {@link Options.lineEditing} mode is implemented as an infinitely-wide screen
+ * with a single line, where every newline scrolls the current line off the screen.
+ */
+class Screen {
+    #rows: Cell[][];
+    #row: number = 0;
+    #col: number = 0;
+
+    constructor(
+        public readonly width: number,
+        public readonly height: number,
+        private onLine: (cells: readonly Cell[]) => void,
+        private onScroll: (cells: readonly Cell[]) => void = onLine,
+    ) {
+        this.#rows = Array.from({ length: height }, () => []);
+    }
+
+    write(text: string, style: Style, hyperlink: string): void {
+        for (const char of text) {
+            switch (char) {
+                case "\r":
+                    this.#col = 0;
                     break;
 
-                case 107:
-                    newStyle.backgroundColor = this.#palette.bright.white;
+                case "\b":
+                    if (this.#col > 0) --this.#col;
                     break;
 
-                default:
+                case "\n":
+                    this.#col = 0;
+                    this.lineFeed();
                     break;
+
+                default: {
+                    if (this.#col >= this.width) {
+                        this.#col = 0;
+                        this.lineFeed();
+                    }
+
+                    const cells = this.#rows[this.#row];
+                    while (cells.length < this.#col) cells.push(blankCell);
+                    cells[this.#col++] = { char, style, hyperlink };
+                }
             }
         }
-        return newStyle;
     }
 
-    private parseCustomColor(parameters: number[], i: number): [number, string] | null {
-        const mainParameter = parameters[i];
+    moveCursor(rows: number, cols: number): void {
+        this.setCursor(this.#row + rows, this.#col + cols);
+    }
 
-        const colorspace = parameters.at(++i);
-        if (colorspace === undefined) {
-            console.error(`[sgrp]: Missing colorspace parameter (2 or 5) after ${mainParameter}`);
-            return null;
+    setCursor(row: number, col: number): void {
+        this.#row = Math.max(0, Math.min(this.height - 1, row));
+        this.#col = Math.max(0, Math.min(this.width - 1, col));
+    }
+
+    setColumn(col: number): void {
+        this.setCursor(this.#row, col);
+    }
+
+    /**
+     * eraseInLine implements the EL (CSI K) sequence: 0 erases from the cursor to the end
+     * of the line, 1 erases from the start of the line to the cursor (inclusive)
+     * and 2 erases the whole line. The cursor is not moved.
+     */
+    eraseInLine(mode: 0 | 1 | 2): void {
+        const cells = this.#rows[this.#row];
+        switch (mode) {
+            case 0:
+                if (cells.length > this.#col) cells.length = this.#col;
+                break;
+
+            case 1:
+                for (let i = 0; i <= this.#col && i < cells.length; ++i) {
+                    cells[i] = blankCell;
+                }
+                break;
+
+            case 2:
+                cells.length = 0;
+                break;
+        }
+    }
+
+    /**
+     * eraseInDisplay implements the ED (CSI J) sequence: 0 erases from the cursor to the end
+     * of the screen, 1 erases from the start of the screen to the cursor (inclusive)
+     * and 2 (or 3) erases the whole screen. The cursor is not moved.
+     */
+    eraseInDisplay(mode: 0 | 1 | 2 | 3): void {
+        switch (mode) {
+            case 0:
+                this.eraseInLine(0);
+                for (let i = this.#row + 1; i < this.height; ++i) this.#rows[i] = [];
+                break;
+
+            case 1:
+                this.eraseInLine(1);
+                for (let i = 0; i < this.#row; ++i) this.#rows[i] = [];
+                break;
+
+            case 2:
+            case 3:
+                for (let i = 0; i < this.height; ++i) this.#rows[i] = [];
+                break;
         }
+    }
 
-        switch (colorspace) {
-            case 2: {
-                const r = parameters.at(++i);
-                const g = parameters.at(++i);
-                const b = parameters.at(++i);
+    flush(): void {
+        let lastRow = this.#row;
+        for (let i = lastRow + 1; i < this.height; ++i) {
+            if (this.#rows[i].length > 0) lastRow = i;
+        }
+
+        for (let i = 0; i <= lastRow; ++i) {
+            const cells = this.#rows[i];
+            if (i < lastRow) cells.push(newlineCell);
+            this.onLine(cells);
+            this.#rows[i] = [];
+        }
+
+        this.#row = 0;
+        this.#col = 0;
+    }
+
+    private lineFeed(): void {
+        if (this.#row < this.height - 1) {
+            ++this.#row;
+        } else {
+            const cells = this.#rows.shift()!;
+            cells.push(newlineCell);
+            this.onScroll(cells);
+            this.#rows.push([]);
+        }
+    }
+}
+
+const controlStringKinds: Record<string, ControlStringKind> = {
+    "P": "dcs",
+    "]": "osc",
+    "_": "apc",
+    "^": "pm",
+    "X": "sos",
+};
+
+const controlStringIntroducers: Record<ControlStringKind, string> = {
+    dcs: "P",
+    osc: "]",
+    apc: "_",
+    pm: "^",
+    sos: "X",
+};
+
+function parseControlString(kind: ControlStringKind, s: string): ControlString {
+    switch (kind) {
+        case "osc": {
+            const separatorIdx = s.indexOf(";");
+            return separatorIdx < 0 ? { kind, identifier: s, payload: "" } : {
+                kind,
+                identifier: s.slice(0, separatorIdx),
+                payload: s.slice(separatorIdx + 1),
+            };
+        }
+
+        case "dcs": {
+            const identifierLength = s.match(/^[0-?]*[ -/]*[@-~]/)?.[0].length ?? 0;
+            return {
+                kind,
+                identifier: s.slice(0, identifierLength),
+                payload: s.slice(identifierLength),
+            };
+        }
+
+        default:
+            return { kind, identifier: "", payload: s };
+    }
+}
+
+enum State {
+    Text,
+    Esc,
+    Csi,
+    String,
+    StringEsc,
+}
+
+abstract class Parser {
+    private static readonly csiArgLenLimit = 64;
+    private static readonly stringLenLimit = 4096;
+    private static readonly styleCacheLimit = 4096;
+    private static readonly sgrResultsLimit = 256;
+
+    #state: State = State.Text;
+    #csiArgs: string = "";
+    #csiIntermediates: string = "";
+    #csiCommand: string = "";
+    #stringKind: ControlStringKind = "osc";
+    #stringPayload: string = "";
+    #stringOverflow: boolean = false;
+    #style: Style = new Style();
+    #hyperlink: string = "";
+    #emittedStyle: Style = this.#style;
+    #emittedHyperlink: string = "";
+    #allowedLinkSchemes: readonly string[];
+    #screen: Screen | null = null;
+    #screenCommands: string = "";
+    #discardUnknownCsi: boolean;
+    #onControlString: ((s: ControlString) => void) | undefined;
+    #displayStyle: (s: Style) => Style;
+
+    // Styles are interned, so that every distinct style is represented by a single object.
+    // This allows caching the outcome of SGR sequences applied to a given style,
+    // and caching anything derived from a style by the renderers.
+    #styles: Map<string, Style> = new Map([[this.#style.key(), this.#style]]);
+    #sgrResults: WeakMap<Style, Map<string, Style>> = new WeakMap();
+
+    constructor(options: Options = {}) {
+        this.#discardUnknownCsi = options.discardUnknownCsi ?? false;
+        this.#onControlString = options.onControlString;
+        this.#allowedLinkSchemes = (options.allowedLinkSchemes ?? ["http", "https"])
+            .map((scheme) => scheme.toLowerCase());
+        this.#displayStyle = displayStyleTransform(options);
+
+        const emitCells = (cells: readonly Cell[]) => this.emitCells(cells);
+        if (options.screen !== undefined) {
+            const width = options.screenWidth ?? 80;
+            const height = options.screenHeight ?? 24;
+            if (!Number.isSafeInteger(width) || width <= 0) {
+                throw new RangeError(`[sgrp] screenWidth must be a positive integer, got ${width}`);
+            }
+            if (!Number.isSafeInteger(height) || height <= 0) {
+                throw new RangeError(
+                    `[sgrp] screenHeight must be a positive integer, got ${height}`,
+                );
+            }
+
+            this.#screen = new Screen(
+                width,
+                height,
+                emitCells,
+                options.screen === "transcript" ? emitCells : () => {},
+            );
+            this.#screenCommands = "ABCDGHJK";
+        } else if (options.lineEditing) {
+            this.#screen = new Screen(Infinity, 1, emitCells);
+            this.#screenCommands = "K";
+        }
+    }
+
+    protected abstract onText(t: string): void;
+
+    protected abstract onStyleChange(s: Style): void;
+
+    protected abstract onHyperlinkChange(url: string): void;
+
+    protected push(chunk: string): void {
+        // Every handler consumes the chunk starting from the provided index,
+        // and returns the index of the first unconsumed character.
+        let i = 0;
+        while (i < chunk.length) {
+            switch (this.#state) {
+                case State.Text:
+                    i = this.handleText(chunk, i);
+                    break;
+                case State.Esc:
+                    i = this.handleEsc(chunk, i);
+                    break;
+                case State.Csi:
+                    i = this.handleCsi(chunk, i);
+                    break;
+                case State.String:
+                    i = this.handleString(chunk, i);
+                    break;
+                case State.StringEsc:
+                    i = this.handleStringEsc(chunk, i);
+                    break;
+            }
+        }
+    }
+
+    protected finalize(): void {
+        switch (this.#state) {
+            case State.Text:
+                break; // nothing to do
+
+            case State.Esc:
+                this.text("\x1B");
+                break;
+
+            case State.Csi:
+                this.dumpUnknownCsi();
+                break;
+
+            case State.String:
+                this.dumpUnknownString("");
+                break;
+
+            case State.StringEsc:
+                this.dumpUnknownString("\x1B");
+                break;
+        }
+
+        this.#screen?.flush();
+    }
+
+    private text(t: string): void {
+        if (this.#screen === null) {
+            this.onText(t);
+        } else {
+            this.#screen.write(t, this.#style, this.#hyperlink);
+        }
+    }
+
+    private emitStyle(s: Style): void {
+        this.#emittedStyle = s;
+        this.onStyleChange(this.#displayStyle(s));
+    }
+
+    private emitHyperlink(url: string): void {
+        this.#emittedHyperlink = url;
+        this.onHyperlinkChange(url);
+    }
+
+    private emitCells(cells: readonly Cell[]): void {
+        let text = "";
+        for (const cell of cells) {
+            const linkChanged = cell.hyperlink !== this.#emittedHyperlink;
+            const styleChanged = cell.style !== this.#emittedStyle &&
+                !cell.style.equals(this.#emittedStyle);
+
+            if (linkChanged || styleChanged) {
+                if (text !== "") this.onText(text);
+                text = "";
+                if (linkChanged) this.emitHyperlink(cell.hyperlink);
+                if (styleChanged) this.emitStyle(cell.style);
+            }
+
+            text += cell.char;
+        }
+        if (text !== "") this.onText(text);
+    }
+
+    private handleText(chunk: string, start: number): number {
+        const escIdx = chunk.indexOf("\x1B", start);
+        if (escIdx < 0) {
+            this.text(start === 0 ? chunk : chunk.slice(start));
+            return chunk.length;
+        } else {
+            if (escIdx > start) this.text(chunk.slice(start, escIdx));
+            this.#state = State.Esc;
+            return escIdx + 1;
+        }
+    }
+
+    private handleEsc(chunk: string, start: number): number {
+        if (chunk.charCodeAt(start) === 0x5B) { // "["
+            this.#state = State.Csi;
+            return start + 1;
+        }
+
+        const stringKind = controlStringKinds[chunk.charAt(start)];
+        if (stringKind !== undefined) {
+            this.#stringKind = stringKind;
+            this.#state = State.String;
+            return start + 1;
+        } else {
+            this.text("\x1B");
+            this.#state = State.Text;
+            return start;
+        }
+    }
+
+    private handleCsi(chunk: string, start: number): number {
+        // ECMA-48 CSI sequences consist of parameter bytes (0x30-0x3F), followed by
+        // intermediate bytes (0x20-0x2F), terminated by a final byte (0x40-0x7E).
+        let i = start;
+        if (this.#csiIntermediates === "") {
+            while (i < chunk.length && isCsiParameterByte(chunk.charCodeAt(i))) ++i;
+        }
+        const parametersEnd = i;
+        while (i < chunk.length && isCsiIntermediateByte(chunk.charCodeAt(i))) ++i;
+
+        const spaceLeft = Parser.csiArgLenLimit - this.#csiArgs.length -
+            this.#csiIntermediates.length;
+        if (i - start > spaceLeft) {
+            console.error("[sgrp] CSI parameter list too long. Rewriting as-is.");
+            this.dumpUnknownCsi();
+            return start;
+        }
+
+        if (parametersEnd > start) this.#csiArgs += chunk.slice(start, parametersEnd);
+        if (i > parametersEnd) this.#csiIntermediates += chunk.slice(parametersEnd, i);
+
+        if (i >= chunk.length) {
+            return i;
+        } else if (isCsiFinalByte(chunk.charCodeAt(i))) {
+            this.#csiCommand = chunk.charAt(i);
+            this.handleCsiCommand();
+            return i + 1;
+        } else {
+            // Malformed sequence - rewrite what was consumed and treat the offending
+            // character as regular text.
+            this.dumpUnknownCsi();
+            return i;
+        }
+    }
+
+    private handleCsiCommand(): void {
+        // Sequences with private parameters (starting with "<", "=", ">" or "?")
+        // or with intermediate bytes are never SGR or screen commands.
+        const isPrivate = this.#csiArgs.length > 0 && this.#csiArgs.charCodeAt(0) >= 0x3C;
+        if (isPrivate || this.#csiIntermediates !== "") {
+            this.handleUnknownCsi();
+        } else if (this.#csiCommand === "m") {
+            this.handleSgr();
+        } else if (this.#screen !== null && this.#screenCommands.includes(this.#csiCommand)) {
+            this.handleScreenCommand(this.#screen);
+        } else {
+            this.handleUnknownCsi();
+        }
+    }
+
+    private handleSgr(): void {
+        let results = this.#sgrResults.get(this.#style);
+        let newStyle = results?.get(this.#csiArgs);
+
+        if (newStyle === undefined) {
+            const parameters = splitSgrParameters(this.#csiArgs);
+            if (parameters === null) {
+                console.error(
+                    "[sgrp]: CSI parameter list doesn't match /^[0-9;:]*$/. Rewriting as-is.",
+                );
+                this.handleUnknownCsi();
+                return;
+            }
+
+            newStyle = this.internStyle(this.parseSgrParameters(parameters));
+            if (results === undefined) {
+                results = new Map();
+                this.#sgrResults.set(this.#style, results);
+            }
+            if (results.size < Parser.sgrResultsLimit) results.set(this.#csiArgs, newStyle);
+        }
+
+        if (newStyle !== this.#style) {
+            this.#style = newStyle;
+            if (this.#screen === null) this.emitStyle(newStyle);
+        }
+
+        this.clearCsi();
+    }
+
+    private internStyle(s: Style): Style {
+        const key = s.key();
+        const interned = this.#styles.get(key);
+        if (interned !== undefined) {
+            // Re-insert the style, keeping the map in the least-recently-used order
+            this.#styles.delete(key);
+            this.#styles.set(key, interned);
+            return interned;
+        }
+
+        // Inputs with a lot of distinct styles (e.g. 24-bit color gradients) would grow
+        // the caches indefinitely - evict the least recently used styles once the limit is reached.
+        if (this.#styles.size >= Parser.styleCacheLimit) this.evictStyles();
+        this.#styles.set(key, s);
+        return s;
+    }
+
+    /**
+     * evictStyles removes the least recently used quarter of interned styles, except for
+     * the current style. Cached SGR results may refer to the evicted styles and are dropped,
+     * so that all styles reachable by the parser remain unique.
+     */
+    private evictStyles(): void {
+        let remaining = Parser.styleCacheLimit / 4;
+        for (const [key, style] of this.#styles) {
+            if (remaining-- <= 0) break;
+            if (style !== this.#style) this.#styles.delete(key);
+        }
+        this.#sgrResults = new WeakMap();
+    }
+
+    private handleScreenCommand(screen: Screen): void {
+        if (this.#csiArgs.match(/^[0-9;]*$/) === null) {
+            this.handleUnknownCsi();
+            return;
+        }
+
+        const parameters = this.#csiArgs.split(";").map((i) => i.length > 0 ? parseInt(i, 10) : 0);
+        const mode = parameters[0];
+        const n = Math.max(1, parameters[0]); // movement by 0 is the same as movement by 1
+
+        switch (this.#csiCommand) {
+            case "A":
+                screen.moveCursor(-n, 0);
+                break;
+
+            case "B":
+                screen.moveCursor(n, 0);
+                break;
+
+            case "C":
+                screen.moveCursor(0, n);
+                break;
+
+            case "D":
+                screen.moveCursor(0, -n);
+                break;
+
+            case "G":
+                screen.setColumn(n - 1);
+                break;
+
+            case "H":
+                screen.setCursor(n - 1, Math.max(1, parameters.at(1) ?? 1) - 1);
+                break;
+
+            case "J":
+                if (mode !== 0 && mode !== 1 && mode !== 2 && mode !== 3) {
+                    this.handleUnknownCsi();
+                    return;
+                }
+                screen.eraseInDisplay(mode);
+                break;
+
+            case "K":
+                if (mode !== 0 && mode !== 1 && mode !== 2) {
+                    this.handleUnknownCsi();
+                    return;
+                }
+                screen.eraseInLine(mode);
+                break;
+        }
+
+        this.clearCsi();
+    }
+
+    private parseSgrParameters(subParameters: number[][]): Style {
+        const newStyle = this.#style.copy();
+        const parameters = subParameters.map((sub) => sub[0]);
+        for (let i = 0; i < parameters.length; ++i) {
+            const p = parameters[i];
+            const sub = subParameters[i];
+            switch (p) {
+                case 0:
+                    newStyle.fontWeight = "";
+                    newStyle.fontStyle = "";
+                    newStyle.textDecorationLineThrough = false;
+                    newStyle.textDecorationUnderline = "";
+                    newStyle.textDecorationColor = defaultColor;
+                    newStyle.color = defaultColor;
+                    newStyle.backgroundColor = defaultColor;
+                    newStyle.inverse = false;
+                    newStyle.concealed = false;
+                    break;
+
+                case 1:
+                    newStyle.fontWeight = "bolder";
+                    break;
+
+                case 2:
+                    newStyle.fontWeight = "lighter";
+                    break;
+
+                case 3:
+                    newStyle.fontStyle = "italic";
+                    break;
+
+                case 4:
+                    newStyle.textDecorationUnderline = sub.length < 2
+                        ? "solid"
+                        : underlineStyles.at(sub[1]) ?? newStyle.textDecorationUnderline;
+                    break;
+
+                case 7:
+                    newStyle.inverse = true;
+                    break;
+
+                case 8:
+                    newStyle.concealed = true;
+                    break;
+
+                case 9:
+                    newStyle.textDecorationLineThrough = true;
+                    break;
+
+                case 21:
+                    newStyle.textDecorationUnderline = "double";
+                    break;
+
+                case 22:
+                    newStyle.fontWeight = "";
+                    break;
+
+                case 23:
+                    newStyle.fontStyle = "";
+                    break;
+
+                case 24:
+                    newStyle.textDecorationUnderline = "";
+                    break;
+
+                case 27:
+                    newStyle.inverse = false;
+                    break;
+
+                case 28:
+                    newStyle.concealed = false;
+                    break;
+
+                case 29:
+                    newStyle.textDecorationLineThrough = false;
+                    break;
+
+                case 30:
+                case 31:
+                case 32:
+                case 33:
+                case 34:
+                case 35:
+                case 36:
+                case 37:
+                    newStyle.color = p - 30;
+                    break;
+
+                case 38: {
+                    if (sub.length > 1) {
+                        // Colon form - invalid colors only affect the current parameter
+                        const result = this.parseCustomColor(withoutColorspaceId(sub), 0);
+                        if (result !== null) newStyle.color = result[1];
+                        break;
+                    }
+
+                    const result = this.parseCustomColor(parameters, i);
+                    if (result === null) {
+                        return newStyle;
+                    } else {
+                        [i, newStyle.color] = result;
+                    }
+                    break;
+                }
+
+                case 39:
+                    newStyle.color = defaultColor;
+                    break;
+
+                case 40:
+                case 41:
+                case 42:
+                case 43:
+                case 44:
+                case 45:
+                case 46:
+                case 47:
+                    newStyle.backgroundColor = p - 40;
+                    break;
+
+                case 48: {
+                    if (sub.length > 1) {
+                        // Colon form - invalid colors only affect the current parameter
+                        const result = this.parseCustomColor(withoutColorspaceId(sub), 0);
+                        if (result !== null) newStyle.backgroundColor = result[1];
+                        break;
+                    }
+
+                    const result = this.parseCustomColor(parameters, i);
+                    if (result === null) {
+                        return newStyle;
+                    } else {
+                        [i, newStyle.backgroundColor] = result;
+                    }
+                    break;
+                }
+
+                case 49:
+                    newStyle.backgroundColor = defaultColor;
+                    break;
+
+                case 58: {
+                    if (sub.length > 1) {
+                        const result = this.parseCustomColor(withoutColorspaceId(sub), 0);
+                        if (result !== null) newStyle.textDecorationColor = result[1];
+                        break;
+                    }
+
+                    const result = this.parseCustomColor(parameters, i);
+                    if (result === null) {
+                        return newStyle;
+                    } else {
+                        [i, newStyle.textDecorationColor] = result;
+                    }
+                    break;
+                }
+
+                case 59:
+                    newStyle.textDecorationColor = defaultColor;
+                    break;
+
+                case 90:
+                case 91:
+                case 92:
+                case 93:
+                case 94:
+                case 95:
+                case 96:
+                case 97:
+                    newStyle.color = p - 90 + 8;
+                    break;
+
+                case 100:
+                case 101:
+                case 102:
+                case 103:
+                case 104:
+                case 105:
+                case 106:
+                case 107:
+                    newStyle.backgroundColor = p - 100 + 8;
+                    break;
+
+                default:
+                    break;
+            }
+        }
+        return newStyle;
+    }
+
+    private parseCustomColor(parameters: number[], i: number): [number, number] | null {
+        const mainParameter = parameters[i];
+
+        const colorspace = parameters.at(++i);
+        if (colorspace === undefined) {
+            console.error(`[sgrp]: Missing colorspace parameter (2 or 5) after ${mainParameter}`);
+            return null;
+        }
+
+        switch (colorspace) {
+            case 2: {
+                const r = parameters.at(++i);
+                const g = parameters.at(++i);
+                const b = parameters.at(++i);
+
+                if (r === undefined || g === undefined || b === undefined) {
+                    console.error(`[sgrp] Missing RGB values after SGR ${mainParameter};2`);
+                    return null;
+                }
+
+                if (!isU8Number(r)) {
+                    console.error(`[sgrp] Invalid red component: ${r}`);
+                    return null;
+                }
+
+                if (!isU8Number(g)) {
+                    console.error(`[sgrp] Invalid green component: ${r}`);
+                    return null;
+                }
+
+                if (!isU8Number(b)) {
+                    console.error(`[sgrp] Invalid blue component: ${r}`);
+                    return null;
+                }
+
+                return [i, trueColor(r, g, b)];
+            }
+
+            case 5: {
+                const v = parameters.at(++i);
+                if (v === undefined) {
+                    console.error(`[sgrp] Missing parameter after SGR ${mainParameter};5`);
+                    return null;
+                } else if (isU8Number(v)) {
+                    return [i, v];
+                } else {
+                    console.error(
+                        `[sgrp] Invalid parameter after SGR ${mainParameter};5: ${v}`,
+                    );
+                    return null;
+                }
+            }
+
+            default:
+                console.error(
+                    `[sgrp]: Unknown colorspace ${colorspace} after SGR ${mainParameter}`,
+                );
+                return null;
+        }
+    }
+
+    private handleString(chunk: string, start: number): number {
+        let terminatorIdx = start;
+        while (terminatorIdx < chunk.length) {
+            const c = chunk.charCodeAt(terminatorIdx);
+            if (c === 0x07 || c === 0x1B) break;
+            ++terminatorIdx;
+        }
+        const payloadChunk = chunk.slice(start, terminatorIdx);
+
+        if (this.#stringOverflow) {
+            // Rest of the payload is discarded, the string is consumed until its terminator
+        } else if (payloadChunk.length > Parser.stringLenLimit - this.#stringPayload.length) {
+            console.error("[sgrp] Control string too long. Truncating.");
+            this.#stringPayload += payloadChunk.slice(
+                0,
+                Parser.stringLenLimit - this.#stringPayload.length,
+            );
+            this.#stringOverflow = true;
+        } else {
+            this.#stringPayload += payloadChunk;
+        }
+
+        if (terminatorIdx >= chunk.length) {
+            return terminatorIdx;
+        } else if (chunk.charCodeAt(terminatorIdx) === 0x07) { // BEL
+            this.handleStringCommand();
+        } else { // ESC, possibly the first byte of the String Terminator
+            this.#state = State.StringEsc;
+        }
+        return terminatorIdx + 1;
+    }
+
+    private handleStringEsc(chunk: string, start: number): number {
+        if (chunk.charCodeAt(start) === 0x5C) { // "\"
+            this.handleStringCommand();
+            return start + 1;
+        } else {
+            // ESC not followed by "\" cancels the string (which is discarded)
+            // and starts a new escape sequence
+            this.clearString();
+            this.#state = State.Esc;
+            return start;
+        }
+    }
+
+    private handleStringCommand(): void {
+        const controlString = parseControlString(this.#stringKind, this.#stringPayload);
+        if (this.#stringOverflow) {
+            controlString.truncated = true;
+        } else if (controlString.kind === "osc" && controlString.identifier === "8") {
+            this.handleHyperlink(controlString.payload);
+        }
+        this.#onControlString?.(controlString);
+        this.clearString();
+    }
+
+    private handleHyperlink(payload: string): void {
+        // OSC 8 ; params ; URI ST
+        const uriIdx = payload.indexOf(";") + 1;
+        if (uriIdx === 0) {
+            console.error("[sgrp] Missing URI in OSC 8. Ignoring.");
+            return;
+        }
+
+        let url = payload.slice(uriIdx);
+        if (url !== "" && !this.isAllowedLink(url)) {
+            console.error(`[sgrp] Hyperlink to ${url} not allowed. Ignoring.`);
+            url = "";
+        }
+
+        if (url !== this.#hyperlink) {
+            this.#hyperlink = url;
+            if (this.#screen === null) this.emitHyperlink(url);
+        }
+    }
+
+    private isAllowedLink(url: string): boolean {
+        let scheme: string;
+        try {
+            scheme = new URL(url).protocol.slice(0, -1); // strip trailing ":"
+        } catch {
+            return false;
+        }
+        return this.#allowedLinkSchemes.includes(scheme);
+    }
+
+    private dumpUnknownString(terminator: string): void {
+        if (!this.#stringOverflow) {
+            const introducer = controlStringIntroducers[this.#stringKind];
+            this.text(`\x1B${introducer}${this.#stringPayload}${terminator}`);
+        }
+        this.clearString();
+    }
+
+    private clearString(): void {
+        this.#stringPayload = "";
+        this.#stringOverflow = false;
+        this.#state = State.Text;
+    }
+
+    private handleUnknownCsi(): void {
+        if (this.#discardUnknownCsi) {
+            this.clearCsi();
+        } else {
+            this.dumpUnknownCsi();
+        }
+    }
+
+    private dumpUnknownCsi(): void {
+        this.text(`\x1B[${this.#csiArgs}${this.#csiIntermediates}${this.#csiCommand}`);
+        this.clearCsi();
+    }
+
+    private clearCsi(): void {
+        this.#csiArgs = "";
+        this.#csiIntermediates = "";
+        this.#csiCommand = "";
+        this.#state = State.Text;
+    }
+}
+
+/**
+ * displayStyleTransform returns a function applying the {@link Options.boldIsBright},
+ * {@link Options.faintMode} and {@link Options.minimumContrast} options to a style,
+ * just before it's passed to a renderer.
+ */
+function displayStyleTransform(options: Options): (s: Style) => Style {
+    const boldIsBright = options.boldIsBright ?? false;
+    const dimFaint = options.faintMode === "dim";
+    const adjustContrast = contrastAdjuster(options);
+    if (!boldIsBright && !dimFaint && adjustContrast === null) return (s) => s;
+
+    return memoizeStyle((s) => {
+        const brighten = boldIsBright && s.fontWeight === "bolder" && s.color >= 0 &&
+            s.color < 8;
+        const dim = dimFaint && s.fontWeight === "lighter";
+
+        let n = s;
+        if (brighten || dim) {
+            n = s.copy();
+            if (brighten) n.color += 8;
+            if (dim) {
+                n.fontWeight = "";
+                n.dimmed = true;
+            }
+        }
+        return adjustContrast === null ? n : adjustContrast(n);
+    });
+}
+
+/**
+ * contrastAdjuster returns a function replacing the foreground color of a style
+ * by a lighter or darker color of the same hue, if the style doesn't meet
+ * {@link Options.minimumContrast}. Returns null if the option isn't set.
+ */
+function contrastAdjuster(options: Options): ((s: Style) => Style) | null {
+    const target = options.minimumContrast;
+    if (target === undefined) return null;
+    if (!(target >= 1 && target <= 21)) {
+        throw new RangeError(`[sgrp] minimumContrast must be between 1 and 21, got ${target}`);
+    }
+    if (options.pageBackground !== undefined) {
+        validateColor(options.pageBackground, "pageBackground");
+    }
+
+    const palette = resolvePalette(options.palette);
+    const page = parseCssColor(options.pageBackground ?? palette.background);
+
+    // Classes only exist for the 256-color table, 24-bit colors would be approximated
+    const classColors = options.styleMode === "class"
+        ? Array.from({ length: 256 }, (_, c) => parseCssColor(resolveColor(c, palette)))
+        : null;
+
+    const closestClassColor = (rgb: RGB, bg: RGB) => {
+        let closest = -1;
+        let closestDistance = Infinity;
+        classColors!.forEach((o, c) => {
+            if (o === null || contrastRatio(o, bg) < target) return;
+            const distance = (rgb[0] - o[0]) ** 2 + (rgb[1] - o[1]) ** 2 + (rgb[2] - o[2]) ** 2;
+            if (distance < closestDistance) {
+                closest = c;
+                closestDistance = distance;
+            }
+        });
+        return closest;
+    };
+
+    return (s) => {
+        const [color, backgroundColor] = s.effectiveColors();
+
+        // Text in the default color on the default background is styled by the page,
+        // and concealed text is invisible
+        if (s.concealed || (color === defaultColor && backgroundColor === defaultColor)) return s;
+
+        const fg = parseCssColor(
+            resolveColor(color === defaultColor ? defaultForeground : color, palette),
+        );
+        const bg = backgroundColor === defaultColor
+            ? page
+            : parseCssColor(resolveColor(backgroundColor, palette));
+        if (fg === null || bg === null) return s;
+
+        // Dimmed text is blended with transparency, bringing it half way to the background
+        const displayed = s.dimmed ? fg.map((c, i) => Math.round((c + bg[i]) / 2)) as RGB : fg;
+        if (contrastRatio(displayed, bg) >= target) return s;
+
+        // Dimming is dropped, as it would reduce the contrast of any color
+        const n = s.copy();
+        n.dimmed = false;
+        if (contrastRatio(fg, bg) >= target) return n;
+
+        const [r, g, b] = adjustLightness(fg, bg, target);
+        let adjusted = trueColor(r, g, b);
+        if (classColors !== null) {
+            const c = closestClassColor([r, g, b], bg);
+            if (c >= 0) adjusted = c;
+        }
+
+        if (s.inverse) {
+            n.backgroundColor = adjusted;
+        } else {
+            n.color = adjusted;
+        }
+        return n;
+    };
+}
+
+/**
+ * relativeLuminance computes the relative luminance of a color, as defined by WCAG 2.
+ */
+function relativeLuminance(rgb: RGB): number {
+    const [r, g, b] = rgb.map((c) => {
+        c /= 255;
+        return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * contrastRatio computes the contrast ratio between two colors, as defined by WCAG 2,
+ * ranging from 1 (no contrast) to 21 (black on white).
+ */
+function contrastRatio(a: RGB, b: RGB): number {
+    const la = relativeLuminance(a);
+    const lb = relativeLuminance(b);
+    return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/**
+ * adjustLightness finds the color with the same hue and saturation as fg, and the closest
+ * lightness, which has the target contrast ratio against bg. If the target can't be
+ * reached, the color with the highest contrast (black or white) is returned.
+ */
+function adjustLightness(fg: RGB, bg: RGB, target: number): RGB {
+    const [h, s, l] = rgbToHsl(fg);
+    const at = (lightness: number) => hslToRgb(h, s, lightness);
+    const meetsTarget = (lightness: number) => contrastRatio(at(lightness), bg) >= target;
+
+    // Luminance only grows with lightness, so the contrast with bg grows
+    // when moving away from bg's luminance - the boundary can be bisected.
+    const bisect = (from: number, to: number) => {
+        if (!meetsTarget(to)) return null;
+        for (let i = 0; i < 16; ++i) {
+            const middle = (from + to) / 2;
+            if (meetsTarget(middle)) {
+                to = middle;
+            } else {
+                from = middle;
+            }
+        }
+        return to;
+    };
+
+    const lighter = bisect(l, 1);
+    const darker = bisect(l, 0);
+    if (lighter !== null && (darker === null || lighter - l <= l - darker)) {
+        return at(lighter);
+    } else if (darker !== null) {
+        return at(darker);
+    }
+    return contrastRatio(at(1), bg) >= contrastRatio(at(0), bg) ? at(1) : at(0);
+}
+
+/**
+ * splitSgrParameters parses an SGR parameter list into a list of parameters,
+ * each being a list of colon-separated sub-parameters (ITU T.416 syntax) - in the usual case,
+ * with only a single element. Empty (sub-)parameters are treated as 0, and an empty list
+ * is the same as a single 0. Returns null if the list contains anything other than
+ * digits, colons and semicolons.
+ */
+function splitSgrParameters(args: string): number[][] | null {
+    const parameters: number[][] = [];
+    let sub: number[] = [];
+    let n = 0;
+    for (let i = 0; i < args.length; ++i) {
+        const c = args.charCodeAt(i);
+        if (c >= 0x30 && c <= 0x39) { // "0"-"9"
+            n = n * 10 + c - 0x30;
+        } else if (c === 0x3A) { // ":"
+            sub.push(n);
+            n = 0;
+        } else if (c === 0x3B) { // ";"
+            sub.push(n);
+            parameters.push(sub);
+            sub = [];
+            n = 0;
+        } else {
+            return null;
+        }
+    }
+    sub.push(n);
+    parameters.push(sub);
+    return parameters;
+}
+
+/**
+ * withoutColorspaceId removes the optional colorspace-id from the colon-separated
+ * 24-bit color form, turning `38:2:id:r:g:b` into `38:2:r:g:b`.
+ */
+function withoutColorspaceId(sub: number[]): number[] {
+    return sub[1] === 2 && sub.length > 5 ? [sub[0], 2, ...sub.slice(3)] : sub;
+}
+
+/**
+ * SGRToStringTransformer is a Transformer<string, string> converting ANSI SGR escape sequences
+ * to appropriately-styled HTML span elements.
+ *
+ * Any incoming HTML data is escaped, as otherwise the output might become malformed
+ * (think what would happen on this input: "<\x1B[1mb\x1B[m>").
+ */
+export class SGRToStringTransformer extends Parser implements Transformer<string, string> {
+    #output: string = "";
+    #inSpan: boolean = false;
+    #inLink: boolean = false;
+    #inLine: boolean = false;
+    #lineNumber: number = 0;
+    #style: Style = new Style();
+    #hyperlink: string = "";
+    #escaper: (_: string) => string;
+    #attributes: (_: Style) => string;
+    #linkAttributes: string;
+    #lines: boolean;
+    #lineNumbers: boolean;
+    #lineIdPrefix: string;
+    #lineClass: (lineNumber: number) => string;
+    #lineNumberAttributes: string;
+
+    /**
+     * Constructs a new SGRToStringTransformer.
+     *
+     * @param {Options} options - set of parameters customizing the conversion process
+     */
+    constructor(options: Options = {}) {
+        super(options);
+        const prefix = resolveClassPrefix(options);
+        this.#escaper = options.escapeControlCodes ? escapeControlHtml : escapeHtml;
+        this.#linkAttributes = (options.linkRel ? ` rel="${escapeHtml(options.linkRel)}"` : "") +
+            (options.linkTarget ? ` target="${escapeHtml(options.linkTarget)}"` : "");
+        if (options.styleMode === "class") {
+            this.#attributes = memoizeStyle((s) => s.toClassAttribute(prefix));
+            this.#lineNumberAttributes = ` class="${escapeHtml(prefix)}line-number"`;
+        } else {
+            const palette = resolveCssPalette(options);
+            this.#attributes = memoizeStyle((s) => s.toCssStyle(palette));
+            this.#lineNumberAttributes = ` class="${escapeHtml(prefix)}line-number"` +
+                ` style="user-select:none;"`;
+        }
+        this.#lines = options.lines ?? false;
+        this.#lineNumbers = options.lineNumbers ?? false;
+        this.#lineIdPrefix = options.lineIdPrefix ?? "L";
+        this.#lineClass = lineClassNamer(options);
+    }
+
+    /**
+     * transform processes a chunk of input string. Part of the
+     * [TransformStream's transformer API](https://developer.mozilla.org/en-US/docs/Web/API/TransformStream/TransformStream#transformer).
+     *
+     * @param {string} chunk
+     * @param {TransformStreamDefaultController<string>} controller
+     */
+    transform(chunk: string, controller: TransformStreamDefaultController<string>): void {
+        this.push(chunk);
+        this.enqueueOutput(controller);
+    }
+
+    /**
+     * flush marks the end of stream. Part of the
+     * [TransformStream's transformer API](https://developer.mozilla.org/en-US/docs/Web/API/TransformStream/TransformStream#transformer).
+     *
+     * @param {string} chunk
+     * @param {TransformStreamDefaultController<string>} controller
+     */
+    flush(controller: TransformStreamDefaultController<string>): void {
+        this.finalize();
+        this.closeSpan();
+        this.closeLink();
+        this.closeLine();
+        this.enqueueOutput(controller);
+    }
+
+    /**
+     * Returns a new TransformStream around this SGRToStringTransformer.
+     *
+     * @returns {TransformStream<string, string>}
+     */
+    toStream(): TransformStream<string, string> {
+        return new TransformStream(this);
+    }
+
+    protected onText(t: string): void {
+        if (t === "") return;
+        if (!this.#lines) {
+            this.writeText(t);
+            return;
+        }
+
+        let start = 0;
+        for (let end = t.indexOf("\n"); end !== -1; end = t.indexOf("\n", start)) {
+            this.openLine();
+            if (end > start) this.writeText(t.slice(start, end));
+            this.closeSpan();
+            this.closeLink();
+            this.closeLine();
+            this.#output += "\n";
+            start = end + 1;
+        }
+
+        if (start < t.length) {
+            this.openLine();
+            this.writeText(t.slice(start));
+        }
+    }
+
+    protected onStyleChange(s: Style): void {
+        this.#style = s;
+        this.closeSpan();
+    }
+
+    protected onHyperlinkChange(url: string): void {
+        // Anchors must not be nested inside spans - the span needs to be re-opened
+        this.closeSpan();
+        this.closeLink();
+        this.#hyperlink = url;
+    }
+
+    private enqueueOutput(controller: TransformStreamDefaultController<string>): void {
+        // Output is gathered into a single string per chunk, as every enqueue is costly
+        if (this.#output !== "") {
+            controller.enqueue(this.#output);
+            this.#output = "";
+        }
+    }
+
+    private writeText(t: string): void {
+        // Anchors and spans are only opened when necessary, to avoid writing empty elements
+        if (!this.#inLink) this.openLink();
+        if (!this.#inSpan) this.openSpan();
+        this.#output += this.#escaper(t);
+    }
+
+    private openSpan(): void {
+        if (!this.#style.isEmpty()) {
+            this.#output += `<span ${this.#attributes(this.#style)}>`;
+            this.#inSpan = true;
+        }
+    }
+
+    private closeSpan(): void {
+        if (this.#inSpan) {
+            this.#output += "</span>";
+            this.#inSpan = false;
+        }
+    }
+
+    private openLink(): void {
+        if (this.#hyperlink !== "") {
+            this.#output += `<a href="${escapeHtml(this.#hyperlink)}"${this.#linkAttributes}>`;
+            this.#inLink = true;
+        }
+    }
+
+    private closeLink(): void {
+        if (this.#inLink) {
+            this.#output += "</a>";
+            this.#inLink = false;
+        }
+    }
+
+    private openLine(): void {
+        if (this.#inLine) return;
+        const n = ++this.#lineNumber;
+        const id = escapeHtml(this.#lineIdPrefix + n);
+        let html = `<span id="${id}" class="${escapeHtml(this.#lineClass(n))}">`;
+        if (this.#lineNumbers) html += `<a${this.#lineNumberAttributes} href="#${id}">${n}</a>`;
+        this.#output += html;
+        this.#inLine = true;
+    }
+
+    private closeLine(): void {
+        if (this.#inLine) {
+            this.#output += "</span>";
+            this.#inLine = false;
+        }
+    }
+}
+
+/**
+ * memoizeStyle caches the results of a function of a {@link Style}. As the {@link Parser}
+ * interns styles, this avoids re-computing the result for every style change.
+ */
+function memoizeStyle<T>(f: (s: Style) => T): (s: Style) => T {
+    const cache = new WeakMap<Style, T>();
+    return (s) => {
+        let result = cache.get(s);
+        if (result === undefined) {
+            result = f(s);
+            cache.set(s, result);
+        }
+        return result;
+    };
+}
+
+/**
+ * lineClassNamer returns a function computing the class names of line elements
+ * in the {@link Options.lines} mode, including the ones returned by {@link Options.lineClass}.
+ */
+function lineClassNamer(options: Options): (lineNumber: number) => string {
+    const base = `${resolveClassPrefix(options)}line`;
+    const extra = options.lineClass;
+    if (!extra) return () => base;
+    return (n) => {
+        const classes = extra(n);
+        return classes ? `${base} ${classes}` : base;
+    };
+}
+
+/**
+ * SGRToElementSink is a UnderlyingSink<string, string> converting ANSI SGR escape sequences
+ * to appropriately-styled HTML span elements, which are incrementally appended to the provided
+ * parent element.
+ *
+ * Any incoming HTML data is escaped, as otherwise the output might become malformed
+ * (think what would happen on this input: "<\x1B[1mb\x1B[m>").
+ *
+ * To handle large inputs, new nodes are gathered in a DocumentFragment and appended
+ * to the element once per batch (see {@link Options.batchSize}), adjacent text is merged
+ * into a single Text node and text without any style isn't wrapped in a span.
+ */
+export class SGRToElementSink extends Parser implements UnderlyingSink<string> {
+    #fragment: DocumentFragment = document.createDocumentFragment();
+    #currentLink: HTMLAnchorElement | null = null;
+    #line: Node | null;
+    #lineNumber: number = 0;
+    #style: Style = new Style();
+    #hyperlink: string = "";
+    #text: string = "";
+    #textParent: Node | null = null;
+    #processed: number = 0;
+    #escapeControlCodes: boolean;
+    #applyStyle: (span: HTMLElement, s: Style) => void;
+    #linkRel: string;
+    #linkTarget: string;
+    #lines: boolean;
+    #lineNumbers: boolean;
+    #lineIdPrefix: string;
+    #lineClass: (lineNumber: number) => string;
+    #lineNumberClass: string;
+    #inlineStyles: boolean;
+    #batchSize: number;
+    #onProgress: (processed: number) => void;
+
+    /**
+     * Constructs a new SGRToElementSink
+     *
+     * @param {Node} element - parent element of all the <spans>
+     * @param {Options} options - set of parameters customizing the conversion process
+     */
+    constructor(public element: Node, options: Options = {}) {
+        super(options);
+        const prefix = resolveClassPrefix(options);
+        this.#escapeControlCodes = options.escapeControlCodes ?? false;
+        this.#linkRel = options.linkRel ?? "";
+        this.#linkTarget = options.linkTarget ?? "";
+        this.#inlineStyles = options.styleMode !== "class";
+        this.#applyStyle = styleApplier(options);
+        this.#lines = options.lines ?? false;
+        this.#lineNumbers = options.lineNumbers ?? false;
+        this.#lineIdPrefix = options.lineIdPrefix ?? "L";
+        this.#lineClass = lineClassNamer(options);
+        this.#lineNumberClass = `${prefix}line-number`;
+        this.#batchSize = Math.max(options.batchSize ?? 65536, 1);
+        this.#onProgress = options.onProgress ?? (() => {});
+
+        // Without lines, top-level nodes are gathered in the fragment,
+        // which is appended to the element (and thus emptied) after every batch.
+        this.#line = this.#lines ? null : this.#fragment;
+    }
+
+    /**
+     * processed is the number of input characters which have been processed
+     * and appended to the element so far.
+     */
+    get processed(): number {
+        return this.#processed;
+    }
+
+    /**
+     * write processes a chunk of input string. Part of the
+     * [WritableStream's underlyingSink API](https://developer.mozilla.org/en-US/docs/Web/API/WritableStream/WritableStream#underlyingsink).
+     *
+     * Chunks longer than {@link Options.batchSize} are processed in batches,
+     * yielding to the event loop between them - the returned promise must be awaited
+     * before writing the next chunk.
+     *
+     * @param {string} chunk
+     * @param {WritableStreamDefaultController<string>} _controller
+     * @returns {Promise<void>}
+     */
+    async write(chunk: string, _controller?: WritableStreamDefaultController): Promise<void> {
+        for (let i = 0; i < chunk.length;) {
+            if (i > 0) await nextFrame();
+
+            // Surrogate pairs are never split between batches (and thus text nodes)
+            let end = Math.min(i + this.#batchSize, chunk.length);
+            if (end < chunk.length && isHighSurrogate(chunk.charCodeAt(end - 1))) {
+                end += end - 1 > i ? -1 : 1;
+            }
+
+            const batch = chunk.slice(i, end);
+            this.push(batch);
+            this.commit(batch.length);
+            i = end;
+        }
+    }
+
+    /**
+     * close marks the end of stream. Part of the
+     * [WritableStream's underlyingSink API](https://developer.mozilla.org/en-US/docs/Web/API/WritableStream/WritableStream#underlyingsink).
+     *
+     * @param {string} chunk
+     * @param {TransformStreamDefaultController<string>} controller
+     */
+    close(): void {
+        this.finalize();
+        this.commit(0);
+    }
+
+    /**
+     * Returns a new WritableStream around this SGRToElementSink.
+     *
+     * @returns {WritableStream<string>}
+     */
+    toStream(): WritableStream<string> {
+        return new WritableStream(this);
+    }
+
+    protected onText(t: string): void {
+        if (t === "") return;
+        if (!this.#lines) {
+            this.writeText(t);
+            return;
+        }
+
+        let start = 0;
+        for (let end = t.indexOf("\n"); end !== -1; end = t.indexOf("\n", start)) {
+            this.openLine();
+            if (end > start) this.writeText(t.slice(start, end));
+            this.flushText();
+            this.#textParent = null;
+            this.#currentLink = null;
+            this.#line = null;
+            this.#fragment.appendChild(new Text("\n"));
+            start = end + 1;
+        }
+
+        if (start < t.length) {
+            this.openLine();
+            this.writeText(t.slice(start));
+        }
+    }
+
+    protected onStyleChange(s: Style): void {
+        this.flushText();
+        this.#style = s;
+        this.#textParent = null;
+    }
+
+    protected onHyperlinkChange(url: string): void {
+        this.flushText();
+        this.#hyperlink = url;
+        this.#currentLink = null;
+        this.#textParent = null;
+    }
+
+    /**
+     * commit appends all pending nodes to the element - the only place where
+     * new top-level nodes touch the live DOM.
+     */
+    private commit(processed: number): void {
+        this.flushText();
+        this.element.appendChild(this.#fragment);
+        this.#processed += processed;
+        this.#onProgress(this.#processed);
+    }
+
+    private writeText(t: string): void {
+        // Adjacent text is merged into a single Text node, and anchors and spans
+        // are only created when necessary, to avoid empty elements.
+        if (this.#textParent === null) {
+            const parent = this.linkOrLine();
+            if (this.#style.isEmpty()) {
+                this.#textParent = parent;
+            } else {
+                const span = document.createElement("span");
+                this.#applyStyle(span, this.#style);
+                this.#textParent = parent.appendChild(span);
+            }
+        }
+        this.#text += this.#escapeControlCodes ? escapeControl(t) : t;
+    }
+
+    private flushText(): void {
+        if (this.#text === "") return;
+        const last = this.#textParent!.lastChild;
+        if (last instanceof Text) {
+            last.appendData(this.#text);
+        } else {
+            this.#textParent!.appendChild(new Text(this.#text));
+        }
+        this.#text = "";
+    }
+
+    private linkOrLine(): Node {
+        if (this.#hyperlink === "") return this.#line!;
+        if (this.#currentLink === null) {
+            const a = document.createElement("a");
+            a.href = this.#hyperlink;
+            if (this.#linkRel) a.rel = this.#linkRel;
+            if (this.#linkTarget) a.target = this.#linkTarget;
+            this.#currentLink = this.#line!.appendChild(a);
+        }
+        return this.#currentLink;
+    }
+
+    private openLine(): void {
+        if (this.#line !== null) return;
+        const n = ++this.#lineNumber;
+        const line = document.createElement("span");
+        line.id = this.#lineIdPrefix + n;
+        line.className = this.#lineClass(n);
+        if (this.#lineNumbers) {
+            const a = line.appendChild(document.createElement("a"));
+            a.className = this.#lineNumberClass;
+            a.href = `#${line.id}`;
+            if (this.#inlineStyles) a.style.userSelect = "none";
+            a.textContent = n.toString();
+        }
+        this.#line = this.#fragment.appendChild(line);
+    }
+}
+
+/**
+ * styleApplier returns a function styling an element according to {@link Options.styleMode}.
+ */
+function styleApplier(options: Options): (element: HTMLElement, s: Style) => void {
+    if (options.styleMode === "class") {
+        const prefix = resolveClassPrefix(options);
+        return (element, s) => {
+            element.className = s.toClassName(prefix);
+        };
+    }
+    const palette = resolveCssPalette(options);
+    return (element, s) => s.applyTo(element.style, palette);
+}
+
+/**
+ * nextFrame returns a promise resolved on the next animation frame, or on the next
+ * event loop iteration outside of browsers.
+ */
+function nextFrame(): Promise<void> {
+    return new Promise((resolve) => {
+        if (typeof requestAnimationFrame === "function") {
+            requestAnimationFrame(() => resolve());
+        } else {
+            setTimeout(resolve, 0);
+        }
+    });
+}
+
+/**
+ * Run is a piece of a line kept by {@link SGRLogViewer}, with a uniform style and hyperlink.
+ */
+interface Run {
+    text: string;
+    style: Style;
+    hyperlink: string;
+}
+
+/**
+ * overscanRows is the number of rows rendered by {@link SGRLogViewer} above and below
+ * the visible ones, to avoid flashes of empty space while scrolling.
+ */
+const overscanRows = 8;
+
+/**
+ * SGRLogViewer is a UnderlyingSink<string> converting ANSI SGR escape sequences to
+ * a virtualized (windowed) log viewer, capable of displaying millions of lines.
+ *
+ * All parsed lines (their text and style runs) are kept in memory, but only the rows visible
+ * in the scrollable container element (plus a few rows above and below) are rendered.
+ * Every row must have the same height - either provided with {@link Options.rowHeight},
+ * or measured on the first render.
+ *
+ * While content streams in, the scroll position is kept, unless the container is scrolled
+ * to the very bottom - in which case the viewer keeps following the new lines.
+ *
+ * The container's existing children are replaced, and the container must have a fixed height.
+ * Call {@link SGRLogViewer.destroy} to detach the viewer from the container.
+ */
+export class SGRLogViewer extends Parser implements UnderlyingSink<string> {
+    #lines: Run[][] = [];
+    #current: Run[] = [];
+    #style: Style = new Style();
+    #hyperlink: string = "";
+    #spacer: HTMLDivElement;
+    #rows: HTMLDivElement;
+    #rowHeight: number;
+    #unmeasurableClientHeight: number = -1;
+    #height: number = 0;
+    #renderedFirst: number = -1;
+    #renderedLast: number = -1;
+    #dirty: boolean = true;
+    #renderScheduled: boolean = false;
+    #destroyed: boolean = false;
+    #onScroll = () => this.scheduleRender();
+    #escapeControlCodes: boolean;
+    #applyStyle: (element: HTMLElement, s: Style) => void;
+    #linkRel: string;
+    #linkTarget: string;
+    #lineNumbers: boolean;
+    #lineClass: (lineNumber: number) => string;
+    #lineNumberClass: string;
+    #inlineStyles: boolean;
+
+    /**
+     * Constructs a new SGRLogViewer
+     *
+     * @param {HTMLElement} container - scrollable element with a fixed height, in which the rows are rendered
+     * @param {Options} options - set of parameters customizing the conversion process
+     */
+    constructor(public container: HTMLElement, options: Options = {}) {
+        super(options);
+        this.#escapeControlCodes = options.escapeControlCodes ?? false;
+        this.#applyStyle = styleApplier(options);
+        this.#linkRel = options.linkRel ?? "";
+        this.#linkTarget = options.linkTarget ?? "";
+        this.#lineNumbers = options.lineNumbers ?? false;
+        this.#lineClass = lineClassNamer(options);
+        this.#lineNumberClass = `${resolveClassPrefix(options)}line-number`;
+        this.#inlineStyles = options.styleMode !== "class";
+        this.#rowHeight = options.rowHeight ?? 0;
+
+        this.#spacer = document.createElement("div");
+        this.#spacer.style.position = "relative";
+        this.#rows = this.#spacer.appendChild(document.createElement("div"));
+        this.#rows.style.position = "absolute";
+        this.#rows.style.left = "0";
+        this.#rows.style.right = "0";
+        this.#rows.style.top = "0";
+
+        container.style.overflowY = "auto";
+        container.replaceChildren(this.#spacer);
+        container.addEventListener("scroll", this.#onScroll, { passive: true });
+    }
+
+    /**
+     * lineCount is the number of lines parsed so far, including the last, incomplete line.
+     */
+    get lineCount(): number {
+        return this.#lines.length + (this.#current.length > 0 ? 1 : 0);
+    }
+
+    /**
+     * write processes a chunk of input string. Part of the
+     * [WritableStream's underlyingSink API](https://developer.mozilla.org/en-US/docs/Web/API/WritableStream/WritableStream#underlyingsink).
+     *
+     * The rows are re-rendered on the next animation frame.
+     *
+     * @param {string} chunk
+     * @param {WritableStreamDefaultController<string>} _controller
+     */
+    write(chunk: string, _controller?: WritableStreamDefaultController): void {
+        this.push(chunk);
+        this.#dirty = true;
+        this.scheduleRender();
+    }
+
+    /**
+     * close marks the end of stream. Part of the
+     * [WritableStream's underlyingSink API](https://developer.mozilla.org/en-US/docs/Web/API/WritableStream/WritableStream#underlyingsink).
+     */
+    close(): void {
+        this.finalize();
+        this.#dirty = true;
+        this.scheduleRender();
+    }
+
+    /**
+     * Returns a new WritableStream around this SGRLogViewer.
+     *
+     * @returns {WritableStream<string>}
+     */
+    toStream(): WritableStream<string> {
+        return new WritableStream(this);
+    }
+
+    /**
+     * scrollToLine scrolls the container so that the line with the provided (1-based) number
+     * is at the top, and immediately renders the visible rows.
+     *
+     * @param {number} lineNumber
+     */
+    scrollToLine(lineNumber: number): void {
+        const index = Math.min(Math.max(lineNumber, 1), Math.max(this.lineCount, 1)) - 1;
+        this.updateHeight();
+        this.container.scrollTop = index * this.measureRowHeight();
+        this.render();
+    }
+
+    /**
+     * destroy detaches the viewer from the container - stops listening for scroll events
+     * and removes the rendered rows. The viewer must not be used afterwards.
+     */
+    destroy(): void {
+        this.#destroyed = true;
+        this.container.removeEventListener("scroll", this.#onScroll);
+        this.#spacer.remove();
+    }
+
+    /**
+     * render immediately renders the rows visible in the container. This is done automatically
+     * after every write and on scroll, but needs to be called manually after the size
+     * of the container changes.
+     */
+    render(): void {
+        this.#renderScheduled = false;
+        if (this.#destroyed) return;
+        const rowHeight = this.measureRowHeight();
+        const count = this.lineCount;
+        this.updateHeight();
+
+        const c = this.container;
+        const first = Math.max(Math.floor(c.scrollTop / rowHeight) - overscanRows, 0);
+        const last = Math.min(
+            Math.ceil((c.scrollTop + c.clientHeight) / rowHeight) + overscanRows,
+            count,
+        );
+        if (!this.#dirty && first === this.#renderedFirst && last === this.#renderedLast) return;
+
+        const fragment = document.createDocumentFragment();
+        for (let i = first; i < last; ++i) fragment.appendChild(this.renderRow(i, rowHeight));
+        this.#rows.style.transform = `translateY(${first * rowHeight}px)`;
+        this.#rows.replaceChildren(fragment);
+        this.#renderedFirst = first;
+        this.#renderedLast = last;
+        this.#dirty = false;
+    }
+
+    protected onText(t: string): void {
+        if (this.#escapeControlCodes) t = escapeControl(t);
+        let start = 0;
+        for (let end = t.indexOf("\n"); end !== -1; end = t.indexOf("\n", start)) {
+            if (end > start) this.addRun(t.slice(start, end));
+            this.#lines.push(this.#current);
+            this.#current = [];
+            start = end + 1;
+        }
+        if (start < t.length) this.addRun(t.slice(start));
+    }
+
+    protected onStyleChange(s: Style): void {
+        this.#style = s;
+    }
+
+    protected onHyperlinkChange(url: string): void {
+        this.#hyperlink = url;
+    }
+
+    private addRun(text: string): void {
+        const last = this.#current[this.#current.length - 1];
+        if (last && last.style === this.#style && last.hyperlink === this.#hyperlink) {
+            last.text += text;
+        } else {
+            this.#current.push({ text, style: this.#style, hyperlink: this.#hyperlink });
+        }
+    }
+
+    private scheduleRender(): void {
+        if (this.#renderScheduled) return;
+        this.#renderScheduled = true;
+        nextFrame().then(() => this.render());
+    }
 
-                if (r === undefined || g === undefined || b === undefined) {
-                    console.error(`[sgrp] Missing RGB values after SGR ${mainParameter};2`);
-                    return null;
-                }
+    private updateHeight(): void {
+        const height = this.lineCount * this.measureRowHeight();
+        if (height === this.#height) return;
 
-                if (!isU8Number(r)) {
-                    console.error(`[sgrp] Invalid red component: ${r}`);
-                    return null;
-                }
+        // Keep following the new lines if the container is scrolled to the very bottom
+        const c = this.container;
+        const following = c.scrollTop + c.clientHeight >= this.#height - 1;
+        this.#spacer.style.height = `${height}px`;
+        this.#height = height;
+        if (following) c.scrollTop = height;
+    }
 
-                if (!isU8Number(g)) {
-                    console.error(`[sgrp] Invalid green component: ${r}`);
-                    return null;
-                }
+    private measureRowHeight(): number {
+        if (this.#rowHeight > 0) return this.#rowHeight;
 
-                if (!isU8Number(b)) {
-                    console.error(`[sgrp] Invalid blue component: ${r}`);
-                    return null;
-                }
+        // A hidden container has no layout - the fallback height is used
+        // until the container's size changes
+        const clientHeight = this.container.clientHeight;
+        if (clientHeight === this.#unmeasurableClientHeight) return 16;
 
-                return [i, `rgb(${r},${g},${b})`];
-            }
+        const probe = this.#rows.appendChild(this.renderRow(0, 0));
+        const height = probe.getBoundingClientRect().height;
+        probe.remove();
+        this.#dirty = true;
 
-            case 5: {
-                const v = parameters.at(++i);
-                if (v === undefined) {
-                    console.error(`[sgrp] Missing parameter after SGR ${mainParameter};5`);
-                    return null;
-                } else if (v === 0) {
-                    return [i, this.#palette.standard.black];
-                } else if (v === 1) {
-                    return [i, this.#palette.standard.red];
-                } else if (v === 2) {
-                    return [i, this.#palette.standard.green];
-                } else if (v === 3) {
-                    return [i, this.#palette.standard.yellow];
-                } else if (v === 4) {
-                    return [i, this.#palette.standard.blue];
-                } else if (v === 5) {
-                    return [i, this.#palette.standard.magenta];
-                } else if (v === 6) {
-                    return [i, this.#palette.standard.cyan];
-                } else if (v === 7) {
-                    return [i, this.#palette.standard.white];
-                } else if (v === 8) {
-                    return [i, this.#palette.bright.black];
-                } else if (v === 9) {
-                    return [i, this.#palette.bright.red];
-                } else if (v === 10) {
-                    return [i, this.#palette.bright.green];
-                } else if (v === 11) {
-                    return [i, this.#palette.bright.yellow];
-                } else if (v === 12) {
-                    return [i, this.#palette.bright.blue];
-                } else if (v === 13) {
-                    return [i, this.#palette.bright.magenta];
-                } else if (v === 14) {
-                    return [i, this.#palette.bright.cyan];
-                } else if (v === 15) {
-                    return [i, this.#palette.bright.white];
-                } else if (v >= 16 && v <= 231 && Number.isSafeInteger(v)) {
-                    let rest = v - 16;
-                    const b = (rest % 6) * 51;
-                    rest = (rest / 6) | 0;
-                    const g = (rest % 6) * 51;
-                    rest = (rest / 6) | 0;
-                    const r = (rest % 6) * 51;
-                    return [i, `rgb(${r},${g},${b})`];
-                } else if (v >= 232 && v <= 255 && Number.isSafeInteger(v)) {
-                    const c = (v - 232) * 11;
-                    return [i, `rgb(${c},${c},${c})`];
-                } else {
-                    console.error(
-                        `[sgrp] Invalid parameter after SGR ${mainParameter};5: ${v}`,
-                    );
-                    return null;
+        if (height > 0) {
+            this.#rowHeight = height;
+            return height;
+        }
+        this.#unmeasurableClientHeight = clientHeight;
+        return 16;
+    }
+
+    private renderRow(index: number, rowHeight: number): HTMLDivElement {
+        const row = document.createElement("div");
+        row.className = this.#lineClass(index + 1);
+        row.style.whiteSpace = "pre";
+        if (rowHeight > 0) row.style.height = `${rowHeight}px`;
+
+        if (this.#lineNumbers) {
+            const gutter = row.appendChild(document.createElement("span"));
+            gutter.className = this.#lineNumberClass;
+            if (this.#inlineStyles) gutter.style.userSelect = "none";
+            gutter.textContent = (index + 1).toString();
+        }
+
+        const runs = index < this.#lines.length ? this.#lines[index] : this.#current;
+        let link: HTMLAnchorElement | null = null;
+        let linkUrl = "";
+        for (const run of runs) {
+            let parent: Node = row;
+            if (run.hyperlink !== "") {
+                if (link === null || linkUrl !== run.hyperlink) {
+                    link = row.appendChild(document.createElement("a"));
+                    link.href = run.hyperlink;
+                    if (this.#linkRel) link.rel = this.#linkRel;
+                    if (this.#linkTarget) link.target = this.#linkTarget;
+                    linkUrl = run.hyperlink;
                 }
+                parent = link;
+            } else {
+                link = null;
             }
 
-            default:
-                console.error(
-                    `[sgrp]: Unknown colorspace ${colorspace} after SGR ${mainParameter}`,
-                );
-                return null;
+            if (run.style.isEmpty()) {
+                parent.appendChild(new Text(run.text));
+            } else {
+                const span = parent.appendChild(document.createElement("span"));
+                this.#applyStyle(span, run.style);
+                span.textContent = run.text;
+            }
         }
-    }
 
-    private dumpUnknownCsi(): void {
-        this.onText(`\x1B[${this.#csiArgs}${this.#csiCommand}`);
-        this.#csiArgs = "";
-        this.#csiCommand = "";
-        this.#state = State.Text;
+        // Keep empty rows from collapsing when the row height is measured
+        if (runs.length === 0 && rowHeight === 0) row.textContent = " ";
+        return row;
     }
 }
 
 /**
- * SGRToStringTransformer is a Transformer<string, string> converting ANSI SGR escape sequences
- * to appropriately-styled HTML span elements.
+ * SGRStripTransformer is a Transformer<string, string> removing ANSI SGR escape sequences
+ * (and all other sequences understood by sgrp) from text, leaving only plain text.
  *
- * Any incoming HTML data is escaped, as otherwise the output might become malformed
- * (think what would happen on this input: "<\x1B[1mb\x1B[m>").
+ * Unlike {@link SGRToStringTransformer}, no HTML escaping is performed. Unknown escape sequences
+ * are passed as-is, unless {@link Options.discardUnknownCsi} or {@link Options.escapeControlCodes}
+ * are set.
  */
-export class SGRToStringTransformer extends Parser implements Transformer<string, string> {
-    #controller: TransformStreamDefaultController<string> | null = null;
-    #inSpan: boolean = false;
-    #escaper: (_: string) => string;
+export class SGRStripTransformer extends Parser implements Transformer<string, string> {
+    #output: string = "";
+    #escapeControlCodes: boolean;
 
     /**
-     * Constructs a new SGRToStringTransformer.
+     * Constructs a new SGRStripTransformer.
      *
      * @param {Options} options - set of parameters customizing the conversion process
      */
     constructor(options: Options = {}) {
         super(options);
-        this.#escaper = options.escapeControlCodes ? escapeControlHtml : escapeHtml;
+        this.#escapeControlCodes = options.escapeControlCodes ?? false;
     }
 
     /**
@@ -739,28 +4371,23 @@ export class SGRToStringTransformer extends Parser implements Transformer<string
      * @param {TransformStreamDefaultController<string>} controller
      */
     transform(chunk: string, controller: TransformStreamDefaultController<string>): void {
-        this.#controller = controller;
         this.push(chunk);
+        this.enqueueOutput(controller);
     }
 
     /**
      * flush marks the end of stream. Part of the
      * [TransformStream's transformer API](https://developer.mozilla.org/en-US/docs/Web/API/TransformStream/TransformStream#transformer).
      *
-     * @param {string} chunk
      * @param {TransformStreamDefaultController<string>} controller
      */
     flush(controller: TransformStreamDefaultController<string>): void {
-        this.#controller = controller;
         this.finalize();
-        if (this.#inSpan) {
-            controller.enqueue("</span>");
-            this.#inSpan = false;
-        }
+        this.enqueueOutput(controller);
     }
 
     /**
-     * Returns a new TransformStream around this SGRToStringTransformer.
+     * Returns a new TransformStream around this SGRStripTransformer.
      *
      * @returns {TransformStream<string, string>}
      */
@@ -769,44 +4396,127 @@ export class SGRToStringTransformer extends Parser implements Transformer<string
     }
 
     protected onText(t: string): void {
-        this.#controller!.enqueue(this.#escaper(t));
+        if (t === "") return;
+        this.#output += this.#escapeControlCodes ? escapeControl(t) : t;
     }
 
-    protected onStyleChange(s: Style): void {
-        if (this.#inSpan) {
-            this.#controller!.enqueue("</span>");
-            this.#inSpan = false;
+    private enqueueOutput(controller: TransformStreamDefaultController<string>): void {
+        if (this.#output !== "") {
+            controller.enqueue(this.#output);
+            this.#output = "";
         }
+    }
 
-        if (!s.isEmpty()) {
-            this.#controller!.enqueue(`<span ${s.toCssStyle()}>`);
-            this.#inSpan = true;
+    protected onStyleChange(_: Style): void {}
+
+    protected onHyperlinkChange(_: string): void {}
+}
+
+/**
+ * SGRToSegmentsTransformer is a Transformer<string, Segment> converting text with ANSI SGR
+ * escape sequences into {@link Segment}s - runs of text with the same style.
+ *
+ * Text from a single input chunk with the same style is merged into a single segment,
+ * but consecutive segments from different chunks may share the same style.
+ */
+export class SGRToSegmentsTransformer extends Parser implements Transformer<string, Segment> {
+    #controller: TransformStreamDefaultController<Segment> | null = null;
+    #palette: Palette;
+    #style: Readonly<SegmentStyle>;
+    #hyperlink: string = "";
+    #pending: Segment | null = null;
+
+    /**
+     * Constructs a new SGRToSegmentsTransformer.
+     *
+     * @param {Options} options - set of parameters customizing the conversion process
+     */
+    constructor(options: Options = {}) {
+        super(options);
+        this.#palette = resolvePalette(options.palette);
+        this.#style = new Style().toSegmentStyle(this.#palette);
+    }
+
+    /**
+     * transform processes a chunk of input string. Part of the
+     * [TransformStream's transformer API](https://developer.mozilla.org/en-US/docs/Web/API/TransformStream/TransformStream#transformer).
+     *
+     * @param {string} chunk
+     * @param {TransformStreamDefaultController<Segment>} controller
+     */
+    transform(chunk: string, controller: TransformStreamDefaultController<Segment>): void {
+        this.#controller = controller;
+        this.push(chunk);
+        this.flushPending();
+    }
+
+    /**
+     * flush marks the end of stream. Part of the
+     * [TransformStream's transformer API](https://developer.mozilla.org/en-US/docs/Web/API/TransformStream/TransformStream#transformer).
+     *
+     * @param {TransformStreamDefaultController<Segment>} controller
+     */
+    flush(controller: TransformStreamDefaultController<Segment>): void {
+        this.#controller = controller;
+        this.finalize();
+        this.flushPending();
+    }
+
+    /**
+     * Returns a new TransformStream around this SGRToSegmentsTransformer.
+     *
+     * @returns {TransformStream<string, Segment>}
+     */
+    toStream(): TransformStream<string, Segment> {
+        return new TransformStream(this);
+    }
+
+    protected onText(t: string): void {
+        if (t === "") return;
+        if (this.#pending === null) {
+            this.#pending = { text: t, style: this.#style, hyperlink: this.#hyperlink };
+        } else {
+            this.#pending.text += t;
+        }
+    }
+
+    protected onStyleChange(s: Style): void {
+        this.flushPending();
+        this.#style = s.toSegmentStyle(this.#palette);
+    }
+
+    protected onHyperlinkChange(url: string): void {
+        this.flushPending();
+        this.#hyperlink = url;
+    }
+
+    private flushPending(): void {
+        if (this.#pending !== null) {
+            this.#controller!.enqueue(this.#pending);
+            this.#pending = null;
         }
     }
 }
 
 /**
- * SGRToElementSink is a UnderlyingSink<string, string> converting ANSI SGR escape sequences
- * to appropriately-styled HTML span elements, which are incrementally appended to the provided
- * parent element.
- *
- * Any incoming HTML data is escaped, as otherwise the output might become malformed
- * (think what would happen on this input: "<\x1B[1mb\x1B[m>").
+ * SGRToRendererSink is a UnderlyingSink<string> parsing ANSI SGR escape sequences
+ * and passing the text, style and hyperlink changes to a custom {@link Renderer}.
  */
-export class SGRToElementSink extends Parser implements UnderlyingSink<string> {
-    #currentSpan: HTMLSpanElement;
-    #escapeControlCodes: boolean;
+export class SGRToRendererSink extends Parser implements UnderlyingSink<string> {
+    #palette: Palette;
+    #style: Readonly<SegmentStyle>;
+    #hyperlink: string = "";
 
     /**
-     * Constructs a new SGRToElementSink
+     * Constructs a new SGRToRendererSink.
      *
-     * @param {Node} element - parent element of all the <spans>
+     * @param {Renderer} renderer - backend receiving the parsed text and style changes
      * @param {Options} options - set of parameters customizing the conversion process
      */
-    constructor(public element: Node, options: Options = {}) {
+    constructor(public renderer: Renderer, options: Options = {}) {
         super(options);
-        this.#currentSpan = this.element.appendChild(document.createElement("span"));
-        this.#escapeControlCodes = options.escapeControlCodes ?? false;
+        this.#palette = resolvePalette(options.palette);
+        this.#style = new Style().toSegmentStyle(this.#palette);
     }
 
     /**
@@ -818,21 +4528,20 @@ export class SGRToElementSink extends Parser implements UnderlyingSink<string> {
      */
     write(chunk: string, _controller?: WritableStreamDefaultController): void {
         this.push(chunk);
+        this.renderer.onFlush?.();
     }
 
     /**
      * close marks the end of stream. Part of the
      * [WritableStream's underlyingSink API](https://developer.mozilla.org/en-US/docs/Web/API/WritableStream/WritableStream#underlyingsink).
-     *
-     * @param {string} chunk
-     * @param {TransformStreamDefaultController<string>} controller
      */
     close(): void {
         this.finalize();
+        this.renderer.onFinalize?.();
     }
 
     /**
-     * Returns a new WritableStream around this SGRToElementSink.
+     * Returns a new WritableStream around this SGRToRendererSink.
      *
      * @returns {WritableStream<string>}
      */
@@ -841,12 +4550,182 @@ export class SGRToElementSink extends Parser implements UnderlyingSink<string> {
     }
 
     protected onText(t: string): void {
-        this.#currentSpan.appendChild(new Text(this.#escapeControlCodes ? escapeControl(t) : t));
+        if (t !== "") this.renderer.onText(t);
     }
 
     protected onStyleChange(s: Style): void {
-        this.#currentSpan = this.element.appendChild(document.createElement("span"));
-        s.applyTo(this.#currentSpan.style);
+        const previous = this.#style;
+        this.#style = s.toSegmentStyle(this.#palette);
+        this.renderer.onStyleChange(previous, this.#style);
+    }
+
+    protected onHyperlinkChange(url: string): void {
+        const previous = this.#hyperlink;
+        this.#hyperlink = url;
+        this.renderer.onHyperlinkChange(previous, url);
+    }
+}
+
+/**
+ * SGRByteDecoder is a Transformer<Uint8Array, string> decoding UTF-8 bytes into text
+ * which can be passed to other sgrp transformers and sinks. Use it in place of
+ * a TextDecoderStream.
+ *
+ * 8-bit C1 control codes (bytes 0x80-0x9F outside of multi-byte sequences, and U+0080-U+009F
+ * code points) introducing escape sequences (DCS, SOS, CSI, OSC, PM and APC) and ST
+ * are converted to their 7-bit equivalents - e.g. 0x9B (CSI) to `ESC [` and 0x9D (OSC)
+ * to `ESC ]` - so that they are recognized by the parser. NEL (0x85) is converted
+ * to a line feed, and all other C1 control codes are discarded.
+ *
+ * Invalid UTF-8 is handled according to {@link Options.invalidUtf8}. Multi-byte sequences
+ * split between chunks are decoded correctly.
+ */
+export class SGRByteDecoder implements Transformer<Uint8Array, string> {
+    // Code point being decoded, number of continuation bytes still needed,
+    // and all bytes of the sequence (for the latin1 fallback)
+    #codePoint: number = 0;
+    #needed: number = 0;
+    #pending: number[] = [];
+    #latin1Fallback: boolean;
+
+    /**
+     * Constructs a new SGRByteDecoder.
+     *
+     * @param {Options} options - set of parameters customizing the decoding process; only invalidUtf8 is used
+     */
+    constructor(options: Options = {}) {
+        this.#latin1Fallback = options.invalidUtf8 === "latin1";
+    }
+
+    /**
+     * transform processes a chunk of input bytes. Part of the
+     * [TransformStream's transformer API](https://developer.mozilla.org/en-US/docs/Web/API/TransformStream/TransformStream#transformer).
+     *
+     * @param {Uint8Array} chunk
+     * @param {TransformStreamDefaultController<string>} controller
+     */
+    transform(chunk: Uint8Array, controller: TransformStreamDefaultController<string>): void {
+        const decoded = this.decode(chunk);
+        if (decoded !== "") controller.enqueue(decoded);
+    }
+
+    /**
+     * flush marks the end of stream. Part of the
+     * [TransformStream's transformer API](https://developer.mozilla.org/en-US/docs/Web/API/TransformStream/TransformStream#transformer).
+     *
+     * @param {TransformStreamDefaultController<string>} controller
+     */
+    flush(controller: TransformStreamDefaultController<string>): void {
+        const units: number[] = [];
+        if (this.#pending.length > 0) this.invalidSequence(units);
+        if (units.length > 0) controller.enqueue(String.fromCharCode(...units));
+    }
+
+    /**
+     * Returns a new TransformStream around this SGRByteDecoder.
+     *
+     * @returns {TransformStream<Uint8Array, string>}
+     */
+    toStream(): TransformStream<Uint8Array, string> {
+        return new TransformStream(this);
+    }
+
+    private decode(chunk: Uint8Array): string {
+        const parts: string[] = [];
+        const units: number[] = [];
+
+        for (let i = 0; i < chunk.length; ++i) {
+            const b = chunk[i];
+
+            if (this.#needed > 0) {
+                if (this.isValidContinuation(b)) {
+                    this.#codePoint = (this.#codePoint << 6) | (b & 0x3F);
+                    this.#pending.push(b);
+                    if (--this.#needed === 0) {
+                        this.codePoint(units, this.#codePoint);
+                        this.#pending = [];
+                    }
+                    continue;
+                }
+                // Invalid sequence - handle the bytes so far and re-process the current byte
+                this.invalidSequence(units);
+            }
+
+            if (b < 0x80) {
+                units.push(b);
+            } else if (b < 0xA0) {
+                this.codePoint(units, b); // 8-bit C1 control
+            } else if (b >= 0xC2 && b <= 0xDF) {
+                this.startSequence(b & 0x1F, 1, b);
+            } else if (b >= 0xE0 && b <= 0xEF) {
+                this.startSequence(b & 0x0F, 2, b);
+            } else if (b >= 0xF0 && b <= 0xF4) {
+                this.startSequence(b & 0x07, 3, b);
+            } else {
+                this.#pending.push(b);
+                this.invalidSequence(units);
+            }
+
+            if (units.length >= 4096) {
+                parts.push(String.fromCharCode(...units));
+                units.length = 0;
+            }
+        }
+
+        parts.push(String.fromCharCode(...units));
+        return parts.join("");
+    }
+
+    private startSequence(codePoint: number, needed: number, b: number): void {
+        this.#codePoint = codePoint;
+        this.#needed = needed;
+        this.#pending.push(b);
+    }
+
+    private isValidContinuation(b: number): boolean {
+        if (this.#pending.length === 1) {
+            // Reject overlong encodings, surrogates and code points above U+10FFFF
+            switch (this.#pending[0]) {
+                case 0xE0:
+                    return b >= 0xA0 && b <= 0xBF;
+                case 0xED:
+                    return b >= 0x80 && b <= 0x9F;
+                case 0xF0:
+                    return b >= 0x90 && b <= 0xBF;
+                case 0xF4:
+                    return b >= 0x80 && b <= 0x8F;
+            }
+        }
+        return b >= 0x80 && b <= 0xBF;
+    }
+
+    private codePoint(units: number[], c: number): void {
+        if (c >= 0x80 && c <= 0x9F) {
+            // Other C1 controls have no 7-bit equivalent which would be understood
+            // by the parser - they are discarded, like unsupported escape sequences
+            if (isC1Introducer(c)) {
+                units.push(0x1B, c - 0x40);
+            } else if (c === 0x85) {
+                units.push(0x0A); // NEL
+            }
+        } else if (c > 0xFFFF) {
+            c -= 0x10000;
+            units.push(0xD800 | (c >> 10), 0xDC00 | (c & 0x3FF));
+        } else {
+            units.push(c);
+        }
+    }
+
+    private invalidSequence(units: number[]): void {
+        if (this.#latin1Fallback) {
+            // C1 control bytes in invalid sequences are garbage, not control codes -
+            // they must not start escape sequences in the parser.
+            for (const b of this.#pending) units.push(b >= 0x80 && b <= 0x9F ? 0xFFFD : b);
+        } else {
+            units.push(0xFFFD);
+        }
+        this.#pending = [];
+        this.#needed = 0;
     }
 }
 
@@ -868,7 +4747,10 @@ export class StringChunkSource implements UnderlyingDefaultSource<string> {
     }
 
     pull(controller: ReadableStreamDefaultController<string>): void {
-        if (this.offset >= this.text.length) controller.close();
+        if (this.offset >= this.text.length) {
+            controller.close();
+            return;
+        }
 
         const size = controller.desiredSize;
         if (size === null) {
@@ -882,7 +4764,8 @@ export class StringChunkSource implements UnderlyingDefaultSource<string> {
     }
 
     toStream(): ReadableStream<string> {
-        return new ReadableStream(this);
+        // Queue size is measured in characters, so that the text is pulled in large chunks
+        return new ReadableStream(this, { highWaterMark: 65536, size: (chunk) => chunk.length });
     }
 }
 
@@ -952,6 +4835,68 @@ export async function sgrToString(
     return sink.toString();
 }
 
+/**
+ * stripSgr removes ANSI SGR escape sequences (and all other sequences understood by sgrp)
+ * from text, leaving only plain text.
+ *
+ * Note that usage of this function should be reserved for testing purposes only.
+ * When writing data to a file or over a network, use {@link SGRStripTransformer} directly
+ * to fully utilize JavaScript's streaming API.
+ *
+ * No HTML escaping is performed.
+ *
+ * @param {string | ReadableStream<string>} source string or a ReadableStream over text containing ANSI SGR escape sequences
+ * @param {Options} options to customize the conversion process
+ * @returns {Promise<string>} promise resolving to plain text
+ */
+export async function stripSgr(
+    source: string | ReadableStream<string>,
+    options: Options = {},
+): Promise<string> {
+    if (typeof source === "string") {
+        source = (new StringChunkSource(source)).toStream();
+    }
+    const transformer = (new SGRStripTransformer(options)).toStream();
+    const sink = new StringChunkSink();
+    await source.pipeThrough(transformer).pipeTo(sink.toStream());
+    return sink.toString();
+}
+
+/**
+ * sgrToSegments converts text containing ANSI SGR escape sequences into an array
+ * of {@link Segment}s - runs of text with the same style.
+ *
+ * Unlike {@link SGRToSegmentsTransformer}, consecutive segments with the same style
+ * and hyperlink are always merged.
+ *
+ * @param {string | ReadableStream<string>} source string or a ReadableStream over text containing ANSI SGR escape sequences
+ * @param {Options} options to customize the conversion process
+ * @returns {Promise<Segment[]>} promise resolving to the list of segments
+ */
+export async function sgrToSegments(
+    source: string | ReadableStream<string>,
+    options: Options = {},
+): Promise<Segment[]> {
+    if (typeof source === "string") {
+        source = (new StringChunkSource(source)).toStream();
+    }
+    const transformer = (new SGRToSegmentsTransformer(options)).toStream();
+    const segments: Segment[] = [];
+    await source.pipeThrough(transformer).pipeTo(
+        new WritableStream({
+            write(segment) {
+                const last = segments.at(-1);
+                if (last?.style === segment.style && last.hyperlink === segment.hyperlink) {
+                    last.text += segment.text;
+                } else {
+                    segments.push(segment);
+                }
+            },
+        }),
+    );
+    return segments;
+}
+
 /**
  * sgrToElement converts text containing ANSI SGR escape sequences to a series of
  * appropriately-styled HTML span elements and incrementally appends them to the provided DOM node.
@@ -972,3 +4917,24 @@ export function sgrToElement(
     const sink = (new SGRToElementSink(element, options)).toStream();
     return source.pipeTo(sink);
 }
+
+/**
+ * sgrToRenderer parses text containing ANSI SGR escape sequences and passes the text,
+ * style and hyperlink changes to a custom {@link Renderer}.
+ *
+ * @param {string | ReadableStream<string>} source string or a ReadableStream over text containing ANSI SGR escape sequences
+ * @param {Renderer} renderer backend receiving the parsed text and style changes
+ * @param {Options} options to customize the conversion process
+ * @returns {Promise<void>} promise resolved when all of the input has been consumed and fully converted
+ */
+export function sgrToRenderer(
+    source: string | ReadableStream<string>,
+    renderer: Renderer,
+    options: Options = {},
+): Promise<void> {
+    if (typeof source === "string") {
+        source = (new StringChunkSource(source)).toStream();
+    }
+    const sink = (new SGRToRendererSink(renderer, options)).toStream();
+    return source.pipeTo(sink);
+}
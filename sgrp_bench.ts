@@ -0,0 +1,71 @@
+// Copyright (c) 2024 Mikołaj Kuranowski
+// SPDX-License-Identifier: MIT
+
+import { SGRToElementSink, sgrToString } from "./sgrp.ts";
+import "./fake_dom.ts";
+
+function repeatLines(line: (i: number) => string, count: number): string {
+    const lines: string[] = [];
+    for (let i = 0; i < count; ++i) lines.push(line(i));
+    return lines.join("\n") + "\n";
+}
+
+const plainLog = repeatLines(
+    (i) => `2024-01-01T00:00:00Z [worker-${i % 8}] step ${i} finished in ${i % 1000} ms`,
+    20_000,
+);
+
+const denseLog = repeatLines(
+    (i) =>
+        `\x1B[2m${i}\x1B[22m \x1B[1;3${i % 8}mINFO\x1B[m compiling \x1B[4mcrate-${i}\x1B[24m ` +
+        `\x1B[38;5;${i % 256}m(${i % 100}%)\x1B[m`,
+    20_000,
+);
+
+const truecolorLog = repeatLines(
+    (i) => {
+        let line = "";
+        for (let j = 0; j < 40; ++j) {
+            line += `\x1B[38;2;${(i + j) % 256};${(i * 3) % 256};${(j * 7) % 256}m` +
+                `\x1B[48;2;${j % 256};${i % 256};${(i + j * 5) % 256}m\u2580`;
+        }
+        return line + "\x1B[m";
+    },
+    2_000,
+);
+
+Deno.bench("sgrToString plain text", { group: "string", baseline: true }, async () => {
+    await sgrToString(plainLog);
+});
+
+Deno.bench("sgrToString dense SGR", { group: "string" }, async () => {
+    await sgrToString(denseLog);
+});
+
+Deno.bench("sgrToString truecolor", { group: "string" }, async () => {
+    await sgrToString(truecolorLog);
+});
+
+Deno.bench("sgrToString dense SGR with class styles", { group: "string" }, async () => {
+    await sgrToString(denseLog, { styleMode: "class" });
+});
+
+async function writeAll(sink: SGRToElementSink, text: string): Promise<void> {
+    for (let i = 0; i < text.length; i += 16384) await sink.write(text.slice(i, i + 16384));
+    sink.close();
+}
+
+Deno.bench("SGRToElementSink plain text", { group: "element" }, async () => {
+    await writeAll(new SGRToElementSink(document.createElement("pre")), plainLog);
+});
+
+Deno.bench("SGRToElementSink dense SGR", { group: "element" }, async () => {
+    await writeAll(new SGRToElementSink(document.createElement("pre")), denseLog);
+});
+
+Deno.bench("SGRToElementSink dense SGR with lines", { group: "element" }, async () => {
+    await writeAll(
+        new SGRToElementSink(document.createElement("pre"), { lines: true, lineNumbers: true }),
+        denseLog,
+    );
+});
@@ -1,8 +1,34 @@
 // Copyright (c) 2024 Mikołaj Kuranowski
 // SPDX-License-Identifier: MIT
 
-import { assertEquals } from "@std/assert";
-import { sgrToString } from "./sgrp.ts";
+import { assertEquals, assertStrictEquals, assertThrows } from "@std/assert";
+import {
+    containerAttributes,
+    type ControlString,
+    defaultPalette,
+    generateColorVariables,
+    generateStylesheet,
+    getTheme,
+    type Options,
+    paletteFromAlacritty,
+    paletteFromBase16,
+    paletteFromItermColors,
+    paletteFromWindowsTerminal,
+    paletteFromXresources,
+    type PartialPalette,
+    type Renderer,
+    type SegmentStyle,
+    SGRByteDecoder,
+    SGRLogViewer,
+    SGRToElementSink,
+    sgrToRenderer,
+    sgrToSegments,
+    sgrToString,
+    SGRToStringTransformer,
+    stripSgr,
+    themes,
+} from "./sgrp.ts";
+import { FakeElement, fakeLayout, type FakeText } from "./fake_dom.ts";
 
 Deno.test("passes text as-is", async () =>
     assertEquals(await sgrToString("hello, world!"), "hello, world!"));
@@ -45,6 +71,40 @@ Deno.test("supports underline and not underline", async () =>
         'hello, <span style="text-decoration:underline;">world</span>!',
     ));
 
+Deno.test("supports double underline", async () =>
+    assertEquals(
+        await sgrToString("hello, \x1B[21mworld\x1B[24m, \x1B[4:2mbye\x1B[m!"),
+        'hello, <span style="text-decoration:underline;text-decoration-style:double;">' +
+            "world</span>, " +
+            '<span style="text-decoration:underline;text-decoration-style:double;">bye</span>!',
+    ));
+
+Deno.test("supports curly, dotted and dashed underlines", async () =>
+    assertEquals(
+        await sgrToString("\x1B[4:3mcurly \x1B[4:4mdotted \x1B[4:5mdashed"),
+        '<span style="text-decoration:underline;text-decoration-style:wavy;">curly </span>' +
+            '<span style="text-decoration:underline;text-decoration-style:dotted;">dotted </span>' +
+            '<span style="text-decoration:underline;text-decoration-style:dashed;">dashed</span>',
+    ));
+
+Deno.test("supports underline color", async () =>
+    assertEquals(
+        await sgrToString(
+            "\x1B[4:3;58;5;1merror\x1B[58:2::0:0:255m warning\x1B[59m note\x1B[0m",
+        ),
+        '<span style="text-decoration:underline;text-decoration-style:wavy;' +
+            'text-decoration-color:#c50f1f;">error</span>' +
+            '<span style="text-decoration:underline;text-decoration-style:wavy;' +
+            'text-decoration-color:rgb(0,0,255);"> warning</span>' +
+            '<span style="text-decoration:underline;text-decoration-style:wavy;"> note</span>',
+    ));
+
+Deno.test("supports underline styles and color in class style mode", async () =>
+    assertEquals(
+        await sgrToString("\x1B[4:3;58;5;9merror", { styleMode: "class" }),
+        '<span class="sgrp-underline sgrp-underline-curly sgrp-ul-bright-red">error</span>',
+    ));
+
 Deno.test("supports crossed-out and not crossed-out", async () =>
     assertEquals(
         await sgrToString("hello, \x1B[9mworld\x1B[29m!"),
@@ -57,6 +117,208 @@ Deno.test("supports underline and crossed-out simultaneously", async () =>
         'hello, <span style="text-decoration:underline line-through;">world</span>!',
     ));
 
+Deno.test("supports inverse and not inverse", async () =>
+    assertEquals(
+        await sgrToString("hello, \x1B[31;42;7mworld\x1B[27m!"),
+        'hello, <span style="color:#13a10e;background-color:#c50f1f;">world</span>' +
+            '<span style="color:#c50f1f;background-color:#13a10e;">!</span>',
+    ));
+
+Deno.test("supports inverse with default colors", async () =>
+    assertEquals(
+        await sgrToString("\x1B[7mhello, \x1B[34mworld"),
+        '<span style="color:#0c0c0c;background-color:#cccccc;">hello, </span>' +
+            '<span style="color:#0c0c0c;background-color:#0037da;">world</span>',
+    ));
+
+Deno.test("supports inverse with custom default colors", async () =>
+    assertEquals(
+        await sgrToString("\x1B[7mhello", {
+            palette: { foreground: "#eee", background: "#222" },
+        }),
+        '<span style="color:#222;background-color:#eee;">hello</span>',
+    ));
+
+Deno.test("generates container attributes", () => {
+    assertEquals(
+        containerAttributes({ palette: { background: "#222" } }),
+        'style="color:#cccccc;background-color:#222;"',
+    );
+    assertEquals(
+        containerAttributes({ styleMode: "class", classPrefix: "x-" }),
+        'class="x-container"',
+    );
+});
+
+Deno.test("supports built-in themes", async () =>
+    assertEquals(
+        await sgrToString("\x1B[31mfoo\x1B[7mbar", { palette: themes.dracula }),
+        '<span style="color:#ff5555;">foo</span>' +
+            '<span style="color:#282a36;background-color:#ff5555;">bar</span>',
+    ));
+
+Deno.test("looks up themes by name", () => {
+    assertStrictEquals(getTheme("Solarized Dark"), themes["solarized-dark"]);
+    assertStrictEquals(getTheme("campbell"), defaultPalette);
+    assertStrictEquals(getTheme("constructor"), undefined);
+    assertEquals(Object.isFrozen(themes.xterm.standard), true);
+});
+
+const readTestData = (name: string) =>
+    Deno.readTextFile(new URL(`testdata/${name}`, import.meta.url));
+
+const tokyoNight: PartialPalette = {
+    standard: {
+        black: "#15161e",
+        red: "#f7768e",
+        green: "#9ece6a",
+        yellow: "#e0af68",
+        blue: "#7aa2f7",
+        magenta: "#bb9af7",
+        cyan: "#7dcfff",
+        white: "#a9b1d6",
+    },
+    bright: {
+        black: "#414868",
+        red: "#f7768e",
+        green: "#9ece6a",
+        yellow: "#e0af68",
+        blue: "#7aa2f7",
+        magenta: "#bb9af7",
+        cyan: "#7dcfff",
+        white: "#c0caf5",
+    },
+    indexed: { 16: "#ff9e64", 17: "#db4b4b" },
+    foreground: "#c0caf5",
+    background: "#1a1b26",
+};
+
+Deno.test("imports Windows Terminal color schemes", async () => {
+    const settings = await readTestData("windows-terminal.json");
+    const oneHalfDark = paletteFromWindowsTerminal(settings, "One Half Dark");
+    assertEquals(oneHalfDark.standard?.magenta, "#c678dd");
+    assertEquals(oneHalfDark.bright?.white, "#dcdfe4");
+    assertEquals(oneHalfDark.foreground, "#dcdfe4");
+    assertEquals(oneHalfDark.background, "#282c34");
+
+    assertEquals(paletteFromWindowsTerminal(settings).background, "#012456");
+    assertEquals(
+        paletteFromWindowsTerminal('{"name": "Red", "red": "#f00", "background": "#000"}'),
+        { standard: { red: "#ff0000" }, bright: {}, background: "#000000" },
+    );
+    assertThrows(() => paletteFromWindowsTerminal(settings, "Missing"), SyntaxError);
+});
+
+Deno.test("imports iTerm2 color presets", async () =>
+    assertEquals(paletteFromItermColors(await readTestData("basic.itermcolors")), {
+        standard: {
+            black: "#000000",
+            red: "#cc0000",
+            green: "#00cc00",
+            yellow: "#cccc00",
+            blue: "#0000cc",
+            magenta: "#cc00cc",
+            cyan: "#00cccc",
+            white: "#cccccc",
+        },
+        bright: {
+            black: "#808080",
+            red: "#ff0000",
+            green: "#00ff00",
+            yellow: "#ffff00",
+            blue: "#0000ff",
+            magenta: "#ff00ff",
+            cyan: "#00ffff",
+            white: "#ffffff",
+        },
+        foreground: "#e6e6e6",
+        background: "#1e1e1e",
+    }));
+
+Deno.test("imports X resources colors", async () => {
+    const palette = paletteFromXresources(await readTestData("Xresources"));
+    assertEquals(palette.standard?.red, "#cc241d");
+    assertEquals(palette.standard?.green, "#98971a");
+    assertEquals(palette.standard?.blue, "#458588");
+    assertEquals(palette.bright?.blue, "#88aa99");
+    assertEquals(palette.bright?.white, "#ebdbb2");
+    assertEquals(palette.indexed, { 16: "#d65d0e" });
+    assertEquals(palette.foreground, "#ebdbb2");
+    assertEquals(palette.background, "#282828");
+});
+
+Deno.test("imports X resources with X11 color names", async () => {
+    const palette = paletteFromXresources(await readTestData("Xresources-names"));
+    assertEquals(palette.standard?.red, "#ff0000");
+    assertEquals(palette.standard?.green, "#698b69");
+    assertEquals(palette.standard?.white, "#bfbfbf");
+    assertEquals(palette.bright?.red, "#cd5c5c");
+    assertEquals(palette.foreground, "#000000");
+    assertEquals(palette.background, "#fafad2");
+    assertThrows(() => paletteFromXresources("*.color1: reddish\n"), SyntaxError, "reddish");
+});
+
+Deno.test("imports Alacritty colors", async () => {
+    assertEquals(paletteFromAlacritty(await readTestData("alacritty.toml"), "toml"), tokyoNight);
+    assertEquals(paletteFromAlacritty(await readTestData("alacritty.yml"), "yaml"), tokyoNight);
+    assertThrows(() => paletteFromAlacritty("[font]\nsize = 11.0\n", "toml"), SyntaxError);
+});
+
+Deno.test("imports base16 schemes", async () => {
+    const palette = paletteFromBase16(await readTestData("base16.yaml"));
+    assertEquals(palette.standard?.black, "#2d2d2d");
+    assertEquals(palette.standard?.red, "#f2777a");
+    assertEquals(palette.bright?.black, "#747369");
+    assertEquals(palette.bright?.white, "#f2f0ec");
+    assertEquals(palette.indexed?.[16], "#f99157");
+    assertEquals(palette.indexed?.[21], "#e8e6df");
+    assertEquals(palette.foreground, "#d3d0c8");
+    assertEquals(palette.background, "#2d2d2d");
+
+    const tinted = "system: base16\nname: Eighties\npalette:\n" +
+        (await readTestData("base16.yaml")).split("\n").filter((l) => l.startsWith("base"))
+            .map((l) => `  ${l.replace('"', '"#')}`).join("\n");
+    assertEquals(paletteFromBase16(tinted), palette);
+    assertThrows(() => paletteFromBase16("base00: 2d2d2d\n"), SyntaxError);
+});
+
+Deno.test("supports concealed and not concealed", async () =>
+    assertEquals(
+        await sgrToString("password: \x1B[31;8mhunter2\x1B[28m!"),
+        'password: <span style="color:transparent;">hunter2</span>' +
+            '<span style="color:#c50f1f;">!</span>',
+    ));
+
+Deno.test("supports inverse and concealed in class style mode", async () =>
+    assertEquals(
+        await sgrToString("\x1B[7;8mhello", { styleMode: "class" }),
+        '<span class="sgrp-fg-background sgrp-bg-foreground sgrp-concealed">hello</span>',
+    ));
+
+Deno.test("renders bold as bright", async () =>
+    assertEquals(
+        await sgrToString("\x1B[1;31mfoo\x1B[22mbar \x1B[1;38;5;3mbaz\x1B[91mqux", {
+            boldIsBright: true,
+        }),
+        '<span style="font-weight:bolder;color:#e74856;">foo</span>' +
+            '<span style="color:#c50f1f;">bar </span>' +
+            '<span style="font-weight:bolder;color:#f9f1a5;">baz</span>' +
+            '<span style="font-weight:bolder;color:#e74856;">qux</span>',
+    ));
+
+Deno.test("renders faint as dimmed", async () =>
+    assertEquals(
+        await sgrToString("\x1B[2mfoo\x1B[31mbar", { faintMode: "dim" }),
+        '<span style="color:color-mix(in srgb,currentColor 50%,transparent);">foo</span>' +
+            '<span style="color:color-mix(in srgb,#c50f1f 50%,transparent);">bar</span>',
+    ));
+
+Deno.test("renders faint as dimmed in class style mode", async () =>
+    assertEquals(
+        await sgrToString("\x1B[2;31mfoo", { faintMode: "dim", styleMode: "class" }),
+        '<span class="sgrp-fg-red sgrp-dim">foo</span>',
+    ));
+
 Deno.test("supports standard foreground colors", async () =>
     assertEquals(
         await sgrToString("\x1B[30mlorem \x1B[31mipsum \x1B[32mdolor \x1B[33msit \x1B[39mamet"),
@@ -164,13 +426,13 @@ Deno.test("supports 8-bit colorspace bright colors", async () =>
 Deno.test("supports 8-bit colorspace cube colors", async () =>
     assertEquals(
         await sgrToString("\x1B[38;5;182mhello"),
-        '<span style="color:rgb(204,153,204);">hello</span>',
+        '<span style="color:rgb(215,175,215);">hello</span>',
     ));
 
 Deno.test("supports 8-bit colorspace grayscale colors", async () =>
     assertEquals(
         await sgrToString("\x1B[48;5;243mhello"),
-        '<span style="background-color:rgb(121,121,121);">hello</span>',
+        '<span style="background-color:rgb(118,118,118);">hello</span>',
     ));
 
 Deno.test("supports 24-bit colorspace FG colors", async () =>
@@ -185,6 +447,36 @@ Deno.test("supports 24-bit colorspace BG colors", async () =>
         '<span style="background-color:rgb(42,42,242);">hello</span>',
     ));
 
+Deno.test("supports colon-separated 8-bit colors", async () =>
+    assertEquals(
+        await sgrToString("\x1B[38:5:182mhello"),
+        '<span style="color:rgb(215,175,215);">hello</span>',
+    ));
+
+Deno.test("supports colon-separated 24-bit colors with colorspace id", async () =>
+    assertEquals(
+        await sgrToString("\x1B[38:2::255:0:0;48:2:0:0:0:255mhello"),
+        '<span style="color:rgb(255,0,0);background-color:rgb(0,0,255);">hello</span>',
+    ));
+
+Deno.test("supports colon-separated 24-bit colors without colorspace id", async () =>
+    assertEquals(
+        await sgrToString("\x1B[48:2:42:42:242mhello"),
+        '<span style="background-color:rgb(42,42,242);">hello</span>',
+    ));
+
+Deno.test("continues after invalid colon-separated colors", async () =>
+    assertEquals(
+        await sgrToString("\x1B[38:5:420;1mhello"),
+        '<span style="font-weight:bolder;">hello</span>',
+    ));
+
+Deno.test("supports colon-separated underline", async () =>
+    assertEquals(
+        await sgrToString("hello, \x1B[4:1mworld\x1B[4:0m!"),
+        'hello, <span style="text-decoration:underline;">world</span>!',
+    ));
+
 Deno.test("bails out on missing colorspace", async () =>
     assertEquals(
         await sgrToString("\x1B[38mhello"),
@@ -263,9 +555,47 @@ Deno.test("passes through unknown CSI sequences", async () =>
         "hello, \x1B[Kworld",
     ));
 
+Deno.test("passes through private CSI sequences", async () =>
+    assertEquals(
+        await sgrToString("\x1B[?25lhello\x1B[?25h"),
+        "\x1B[?25lhello\x1B[?25h",
+    ));
+
+Deno.test("doesn't treat private CSI sequences as SGR", async () =>
+    assertEquals(
+        await sgrToString("\x1B[>4;2mhello"),
+        "\x1B[&gt;4;2mhello",
+    ));
+
+Deno.test("doesn't treat CSI sequences with intermediates as SGR", async () =>
+    assertEquals(
+        await sgrToString("\x1B[1 mhello\x1B[0 q"),
+        "\x1B[1 mhello\x1B[0 q",
+    ));
+
+Deno.test("passes through malformed CSI sequences", async () =>
+    assertEquals(
+        await sgrToString("\x1B[1\x07mhello\x1B[1 2m"),
+        "\x1B[1\x07mhello\x1B[1 2m",
+    ));
+
+Deno.test("discards unknown CSI sequences", async () =>
+    assertEquals(
+        await sgrToString("\x1B[?25l\x1B[2Jhello, \x1B[1;31mworld\x1B[>4;2m\x1B[?25h", {
+            discardUnknownCsi: true,
+        }),
+        'hello, <span style="font-weight:bolder;color:#c50f1f;">world</span>',
+    ));
+
+Deno.test("doesn't discard malformed CSI sequences", async () =>
+    assertEquals(
+        await sgrToString("\x1B[1\x07mhello", { discardUnknownCsi: true }),
+        "\x1B[1\x07mhello",
+    ));
+
 Deno.test("ignores unsupported SGRs", async () =>
     assertEquals(
-        await sgrToString("hello, \x1B[8mworld"),
+        await sgrToString("hello, \x1B[5mworld"),
         "hello, world",
     ));
 
@@ -276,3 +606,795 @@ Deno.test("bails out on too long CSI parameter lists", async () =>
         ),
         "hello, \x1B[0123456789012345678901234567890123456789012345678901234567890123456789mworld",
     ));
+
+Deno.test("supports class style mode", async () =>
+    assertEquals(
+        await sgrToString("hello, \x1B[1;4;31;103mworld\x1B[0m!", { styleMode: "class" }),
+        'hello, <span class="sgrp-bold sgrp-underline sgrp-fg-red sgrp-bg-bright-yellow">' +
+            "world</span>!",
+    ));
+
+Deno.test("supports custom class prefix", async () =>
+    assertEquals(
+        await sgrToString("\x1B[3;9mhello", { styleMode: "class", classPrefix: "x-" }),
+        '<span class="x-italic x-strike">hello</span>',
+    ));
+
+Deno.test("supports class style mode with 8-bit colors", async () =>
+    assertEquals(
+        await sgrToString("\x1B[38;5;182;48;5;9mhello", { styleMode: "class" }),
+        '<span class="sgrp-fg-182 sgrp-bg-bright-red">hello</span>',
+    ));
+
+Deno.test("approximates 24-bit colors in class style mode", async () =>
+    assertEquals(
+        await sgrToString("\x1B[38;2;100;255;100mhello \x1B[38;2;120;120;122mworld", {
+            styleMode: "class",
+        }),
+        '<span class="sgrp-fg-83">hello </span><span class="sgrp-fg-243">world</span>',
+    ));
+
+Deno.test("generates stylesheets", () => {
+    const css = generateStylesheet({ palette: { standard: { red: "#a00" } } }).split("\n");
+    assertEquals(css.includes(".sgrp-bold{font-weight:bolder}"), true);
+    assertEquals(css.includes(".sgrp-fg-red{color:#a00}"), true);
+    assertEquals(css.includes(".sgrp-bg-bright-yellow{background-color:#f9f1a5}"), true);
+    assertEquals(css.includes(".sgrp-fg-182{color:rgb(215,175,215)}"), true);
+    assertEquals(css.includes(".sgrp-bg-243{background-color:rgb(118,118,118)}"), true);
+    assertEquals(css.includes(".sgrp-fg-background{color:#0c0c0c}"), true);
+    assertEquals(css.includes(".sgrp-container{color:#cccccc;background-color:#0c0c0c}"), true);
+});
+
+Deno.test("overrides indexed colors", async () =>
+    assertEquals(
+        await sgrToString("\x1B[38;5;182mfoo\x1B[38;5;1mbar\x1B[38;5;200mbaz", {
+            palette: { indexed: { 1: "#f00", 182: "#abcdef" } },
+        }),
+        '<span style="color:#abcdef;">foo</span><span style="color:#f00;">bar</span>' +
+            '<span style="color:rgb(255,0,215);">baz</span>',
+    ));
+
+Deno.test("generates stylesheets with overridden indexed colors", () => {
+    const css = generateStylesheet({ palette: { indexed: { 9: "#f55", 100: "#123" } } });
+    assertEquals(css.includes(".sgrp-fg-bright-red{color:#f55}"), true);
+    assertEquals(css.includes(".sgrp-bg-100{background-color:#123}"), true);
+});
+
+Deno.test("accepts valid palette colors", () =>
+    assertEquals(
+        containerAttributes({
+            palette: {
+                standard: {
+                    red: "#F00A",
+                    green: "rgb(0 128 0 / 50%)",
+                    blue: "RGBA(0, 0, 255, .5)",
+                },
+                bright: { red: "hsl(0deg 100% 50%)", green: "hsla(120, 100%, 50%, 0.5)" },
+                indexed: { 16: "rebeccapurple", 17: "currentColor" },
+                foreground: "var(--fg, var(--base, #ccc))",
+                background: "transparent",
+            },
+        }),
+        'style="color:var(--fg, var(--base, #ccc));background-color:transparent;"',
+    ));
+
+Deno.test("rejects hostile palettes", () => {
+    const hostile: PartialPalette[] = [
+        { standard: { red: 'red;" onmouseover="alert(1)' } },
+        { bright: { blue: "red}body{display:none" } },
+        { foreground: "url(https://example.com/track)" },
+        { background: "expression(alert(1))" },
+        { indexed: { 200: "#ff00zz" } },
+        { indexed: { 300: "#fff" } },
+        { foreground: "var(--x, red;color:blue)" },
+        { background: "rgb(0,0,0);--x:y" },
+        { foreground: "" },
+        { standard: { red: "rgb(1e999, 0, 0)" } },
+        { standard: { green: "rgb(256, 0, 0)" } },
+        { standard: { blue: "rgb(50%, 0, 0)" } },
+        { bright: { red: "rgb(0 0 0 / 2)" } },
+        { bright: { green: "rgb(0, 0 0)" } },
+        { bright: { blue: "hsl(0, 50, 50%)" } },
+        { indexed: { 16: "hsl(0 50% 150%)" } },
+    ];
+    for (const palette of hostile) {
+        assertThrows(() => new SGRToStringTransformer({ palette }), SyntaxError, "[sgrp]");
+        assertThrows(() => generateStylesheet({ palette }), SyntaxError, "[sgrp]");
+    }
+    assertThrows(
+        () => containerAttributes({ palette: { standard: { red: "<b>" } } }),
+        SyntaxError,
+        'palette.standard.red: "<b>"',
+    );
+});
+
+Deno.test("rejects hostile class prefixes", () => {
+    for (
+        const classPrefix of [
+            'x"><b>',
+            "x);background:url(//evil.example/t);--y:(",
+            "x{}body{display:none}.y",
+            "1x-",
+        ]
+    ) {
+        assertThrows(
+            () => new SGRToStringTransformer({ colorVariables: true, classPrefix }),
+            SyntaxError,
+            "classPrefix",
+        );
+        assertThrows(
+            () => new SGRToStringTransformer({ styleMode: "class", classPrefix }),
+            SyntaxError,
+            "classPrefix",
+        );
+        assertThrows(() => generateColorVariables({ classPrefix }), SyntaxError, "classPrefix");
+        assertThrows(() => generateStylesheet({ classPrefix }), SyntaxError, "classPrefix");
+        assertThrows(
+            () => containerAttributes({ styleMode: "class", classPrefix }),
+            SyntaxError,
+            "classPrefix",
+        );
+    }
+});
+
+Deno.test("enforces minimum contrast", async () =>
+    assertEquals(
+        await sgrToString("\x1B[34mblue\x1B[m \x1B[33myellow\x1B[m \x1B[1mbold", {
+            minimumContrast: 4.5,
+        }),
+        '<span style="color:rgb(60,110,255);">blue</span> <span style="color:#c19c00;">yellow</span> ' +
+            '<span style="font-weight:bolder;">bold</span>',
+    ));
+
+Deno.test("enforces minimum contrast of palette colors", async () =>
+    assertEquals(
+        await sgrToString("\x1B[34mA\x1B[35mB\x1B[36mC", {
+            minimumContrast: 4.5,
+            palette: {
+                standard: {
+                    blue: "hsl(240deg, 100%, 25%)",
+                    magenta: "rgb(50% 0% 50% / 0.5)",
+                    cyan: "navy",
+                },
+            },
+        }),
+        '<span style="color:rgb(101,101,255);">A</span><span style="color:rgb(215,0,215);">B</span>' +
+            '<span style="color:rgb(101,101,255);">C</span>',
+    ));
+
+Deno.test("enforces minimum contrast against the page background", async () =>
+    assertEquals(
+        await sgrToString("\x1B[93mA\x1B[m \x1B[38;2;200;200;0mB\x1B[m \x1B[38;5;226mC", {
+            minimumContrast: 4.5,
+            pageBackground: "white",
+        }),
+        '<span style="color:rgb(131,120,9);">A</span> <span style="color:rgb(122,122,0);">B</span> ' +
+            '<span style="color:rgb(122,122,0);">C</span>',
+    ));
+
+Deno.test("enforces minimum contrast against the effective background", async () => {
+    assertEquals(
+        await sgrToString("\x1B[34;47mA\x1B[m \x1B[7;90mB\x1B[m \x1B[34;8mC", {
+            minimumContrast: 7,
+        }),
+        '<span style="color:rgb(0,42,164);background-color:#cccccc;">A</span> ' +
+            '<span style="color:rgb(0,0,0);background-color:#767676;">B</span> ' +
+            '<span style="color:transparent;">C</span>',
+    );
+    assertEquals(
+        await sgrToString("\x1B[34mA", { minimumContrast: 21 }),
+        '<span style="color:rgb(255,255,255);">A</span>',
+    );
+    assertEquals(
+        await sgrToString("\x1B[43mA\x1B[m B", { minimumContrast: 4.5 }),
+        '<span style="color:rgb(55,55,55);background-color:#c19c00;">A</span> B',
+    );
+    assertEquals(
+        await sgrToString("\x1B[2;34mA\x1B[2;97mB\x1B[2;37mC", {
+            minimumContrast: 4.5,
+            faintMode: "dim",
+        }),
+        '<span style="color:rgb(60,110,255);">A</span>' +
+            '<span style="color:color-mix(in srgb,#f2f2f2 50%,transparent);">B</span>' +
+            '<span style="color:#cccccc;">C</span>',
+    );
+    assertEquals(
+        await sgrToString("\x1B[34mA\x1B[43;39mB", { minimumContrast: 4.5, styleMode: "class" }),
+        '<span class="sgrp-fg-bright-blue">A</span><span class="sgrp-fg-236 sgrp-bg-yellow">B</span>',
+    );
+    assertThrows(() => new SGRToStringTransformer({ minimumContrast: 0 }), RangeError);
+    assertThrows(
+        () => new SGRToStringTransformer({ minimumContrast: 3, pageBackground: "url(x)" }),
+        SyntaxError,
+        "pageBackground",
+    );
+});
+
+Deno.test("supports color variables", async () =>
+    assertEquals(
+        await sgrToString("\x1B[31mfoo\x1B[7;95mbar\x1B[27;38;5;1;48;5;200mbaz", {
+            colorVariables: true,
+            palette: { indexed: { 1: "#f00", 200: "#abcdef" } },
+        }),
+        '<span style="color:var(--sgrp-red);">foo</span>' +
+            '<span style="color:var(--sgrp-background);background-color:var(--sgrp-bright-magenta);">' +
+            "bar</span>" +
+            '<span style="color:var(--sgrp-red);background-color:#abcdef;">baz</span>',
+    ));
+
+Deno.test("generates stylesheets with color variables", () => {
+    const options: Options = { colorVariables: true, classPrefix: "x-" };
+    const css = generateStylesheet(options).split("\n");
+    assertEquals(css.includes(".x-fg-red{color:var(--x-red)}"), true);
+    assertEquals(css.includes(".x-bg-182{background-color:rgb(215,175,215)}"), true);
+    assertEquals(
+        css.includes(
+            ".x-container{color:var(--x-foreground);background-color:var(--x-background)}",
+        ),
+        true,
+    );
+    assertEquals(
+        containerAttributes(options),
+        'style="color:var(--x-foreground);background-color:var(--x-background);"',
+    );
+});
+
+Deno.test("generates color variables", () => {
+    const css = generateColorVariables(
+        { palette: { standard: { red: "#a00" }, indexed: { 9: "#f55" } } },
+        themes.dracula,
+    ).split("\n");
+    assertEquals(css.length, 3);
+    assertEquals(
+        css[0].startsWith(":root{--sgrp-foreground:#cccccc;--sgrp-background:#0c0c0c;"),
+        true,
+    );
+    assertEquals(css[0].includes(";--sgrp-red:#a00;"), true);
+    assertEquals(css[0].includes(";--sgrp-bright-red:#f55;"), true);
+    assertEquals(css[0].endsWith(";--sgrp-bright-white:#f2f2f2}"), true);
+    assertEquals(
+        css[1].startsWith("@media (prefers-color-scheme:dark){:root{--sgrp-foreground:#f8f8f2;"),
+        true,
+    );
+    assertEquals(css[1].endsWith("}}"), true);
+    assertEquals(css[2], "");
+});
+
+Deno.test("supports hyperlinks", async () =>
+    assertEquals(
+        await sgrToString(
+            "see \x1B]8;;https://example.com/?a=1&b=2\x1B\\example\x1B]8;;\x1B\\ for details",
+        ),
+        'see <a href="https://example.com/?a=1&amp;b=2">example</a> for details',
+    ));
+
+Deno.test("supports hyperlinks terminated by BEL", async () =>
+    assertEquals(
+        await sgrToString("\x1B]8;id=1;http://example.com\x07example\x1B]8;;\x07"),
+        '<a href="http://example.com">example</a>',
+    ));
+
+Deno.test("nests styles in hyperlinks", async () =>
+    assertEquals(
+        await sgrToString(
+            "\x1B[1mfoo \x1B]8;;https://example.com\x07bar\x1B[3m baz\x1B]8;;\x07\x1B[22m!",
+        ),
+        '<span style="font-weight:bolder;">foo </span>' +
+            '<a href="https://example.com"><span style="font-weight:bolder;">bar</span>' +
+            '<span style="font-weight:bolder;font-style:italic;"> baz</span></a>' +
+            '<span style="font-style:italic;">!</span>',
+    ));
+
+Deno.test("closes hyperlinks", async () =>
+    assertEquals(
+        await sgrToString("\x1B]8;;https://example.com\x07\x1B[1mexample"),
+        '<a href="https://example.com"><span style="font-weight:bolder;">example</span></a>',
+    ));
+
+Deno.test("supports hyperlink rel and target", async () =>
+    assertEquals(
+        await sgrToString("\x1B]8;;https://example.com\x07example\x1B]8;;\x07", {
+            linkRel: "noopener noreferrer",
+            linkTarget: "_blank",
+        }),
+        '<a href="https://example.com" rel="noopener noreferrer" target="_blank">example</a>',
+    ));
+
+Deno.test("ignores hyperlinks with disallowed schemes", async () =>
+    assertEquals(
+        await sgrToString("\x1B]8;;javascript:alert(1)\x07example\x1B]8;;\x07"),
+        "example",
+    ));
+
+Deno.test("supports custom hyperlink schemes", async () =>
+    assertEquals(
+        await sgrToString("\x1B]8;;file:///etc/hosts\x07hosts\x1B]8;;\x07", {
+            allowedLinkSchemes: ["file"],
+        }),
+        '<a href="file:///etc/hosts">hosts</a>',
+    ));
+
+Deno.test("consumes control strings", async () =>
+    assertEquals(
+        await sgrToString(
+            "\x1B]0;title\x07hello\x1BP0;1;0q#0;2;0;0;0~-\x1B\\, \x1B_Gi=1\x1B\\" +
+                "\x1B^secret\x1B\\world\x1BXstring\x07!",
+        ),
+        "hello, world!",
+    ));
+
+Deno.test("reports control strings", async () => {
+    const strings: ControlString[] = [];
+    await sgrToString(
+        "\x1B]2;my title\x07\x1B]133;A\x1B\\$ \x1B]133;B\x07ls\x1BP0;1;0q#0~\x1B\\" +
+            "\x1B_Ga=T\x1B\\\x1B]8;;https://example.com\x07link\x1B]8;;\x07",
+        { onControlString: (s) => strings.push(s) },
+    );
+    assertEquals(strings, [
+        { kind: "osc", identifier: "2", payload: "my title" },
+        { kind: "osc", identifier: "133", payload: "A" },
+        { kind: "osc", identifier: "133", payload: "B" },
+        { kind: "dcs", identifier: "0;1;0q", payload: "#0~" },
+        { kind: "apc", identifier: "", payload: "Ga=T" },
+        { kind: "osc", identifier: "8", payload: ";https://example.com" },
+        { kind: "osc", identifier: "8", payload: ";" },
+    ]);
+});
+
+Deno.test("consumes too long control strings", async () => {
+    const strings: ControlString[] = [];
+    assertEquals(
+        await sgrToString(`hello\x1BP0;1;0q${"#0~".repeat(2000)}\x1B\\, world`, {
+            onControlString: (s) => strings.push(s),
+        }),
+        "hello, world",
+    );
+    assertEquals(strings, [
+        { kind: "dcs", identifier: "0;1;0q", payload: `${"#0~".repeat(1363)}#`, truncated: true },
+    ]);
+});
+
+Deno.test("discards cancelled control strings", async () =>
+    assertEquals(
+        await sgrToString("\x1B]0;title\x1B[1mhello"),
+        '<span style="font-weight:bolder;">hello</span>',
+    ));
+
+Deno.test("flushes unterminated OSC sequences", async () =>
+    assertEquals(
+        await sgrToString("hello, \x1B]8;;https://exa"),
+        "hello, \x1B]8;;https://exa",
+    ));
+
+Deno.test("collapses carriage returns in line editing mode", async () =>
+    assertEquals(
+        await sgrToString("progress: 10%\rprogress: 50%\rprogress: 100%\ndone\n", {
+            lineEditing: true,
+        }),
+        "progress: 100%\ndone\n",
+    ));
+
+Deno.test("keeps characters not overwritten after carriage return", async () =>
+    assertEquals(
+        await sgrToString("hello, world\rbye\r\n", { lineEditing: true }),
+        "byelo, world\n",
+    ));
+
+Deno.test("supports erase in line in line editing mode", async () =>
+    assertEquals(
+        await sgrToString("hello, world\r\x1B[2Kbye\nfoo bar\b\b\b\x1B[K", {
+            lineEditing: true,
+        }),
+        "bye\nfoo ",
+    ));
+
+Deno.test("supports erase to cursor in line editing mode", async () =>
+    assertEquals(
+        await sgrToString("hello, world\b\b\b\b\b\x1B[1K!", { lineEditing: true }),
+        "       !orld",
+    ));
+
+Deno.test("keeps styles across overwrites in line editing mode", async () =>
+    assertEquals(
+        await sgrToString("\x1B[31m[    ]\x1B[0m 0%\r\x1B[31m[\x1B[32m####\x1B[0m\n", {
+            lineEditing: true,
+        }),
+        '<span style="color:#c50f1f;">[</span><span style="color:#13a10e;">####</span>' +
+            '<span style="color:#c50f1f;">]</span> 0%\n',
+    ));
+
+Deno.test("passes through erase in line without line editing", async () =>
+    assertEquals(
+        await sgrToString("foo\rbar\x1B[K\n"),
+        "foo\rbar\x1B[K\n",
+    ));
+
+Deno.test("renders final screen", async () =>
+    assertEquals(
+        await sgrToString(
+            "line 1\nline 2\nline 3\n\x1B[2A\x1B[2Kupdated\x1B[1;6H!\x1B[3B\x1B[3Gend",
+            { screen: "final", screenHeight: 5 },
+        ),
+        "line !\nupdated\nline 3\n  end",
+    ));
+
+Deno.test("supports relative cursor movement in screen mode", async () =>
+    assertEquals(
+        await sgrToString("abcdef\x1B[3D\x1B[1mX\x1B[0m\x1B[10CY\x1B[B\x1B[2DZ", {
+            screen: "final",
+        }),
+        'abc<span style="font-weight:bolder;">X</span>ef        Y\n             Z',
+    ));
+
+Deno.test("supports erase in display in screen mode", async () =>
+    assertEquals(
+        await sgrToString("one\ntwo\nthree\x1B[2;2H\x1B[J\x1B[1;2H\x1B[1J", {
+            screen: "final",
+        }),
+        "  e\nt",
+    ));
+
+Deno.test("wraps lines in screen mode", async () =>
+    assertEquals(
+        await sgrToString("abcdefgh", { screen: "final", screenWidth: 5 }),
+        "abcde\nfgh",
+    ));
+
+Deno.test("rejects invalid screen sizes", () => {
+    for (const size of [0, -1, 2.5, NaN, Infinity]) {
+        assertThrows(
+            () => new SGRToStringTransformer({ screen: "final", screenWidth: size }),
+            RangeError,
+            "screenWidth",
+        );
+        assertThrows(
+            () => new SGRToStringTransformer({ screen: "final", screenHeight: size }),
+            RangeError,
+            "screenHeight",
+        );
+    }
+});
+
+Deno.test("discards lines scrolled off the final screen", async () =>
+    assertEquals(
+        await sgrToString("1\n2\n3\n4\x1B[H\x1B[2J5", { screen: "final", screenHeight: 2 }),
+        "5",
+    ));
+
+Deno.test("outputs scrolled lines in screen transcript mode", async () =>
+    assertEquals(
+        await sgrToString("1\n2\n3\n4\x1B[A\r\x1B[2K5", {
+            screen: "transcript",
+            screenHeight: 2,
+        }),
+        "1\n2\n5\n4",
+    ));
+
+Deno.test("wraps lines in elements", async () =>
+    assertEquals(
+        await sgrToString("foo\n\nbar\n", { lines: true }),
+        '<span id="L1" class="sgrp-line">foo</span>\n' +
+            '<span id="L2" class="sgrp-line"></span>\n' +
+            '<span id="L3" class="sgrp-line">bar</span>\n',
+    ));
+
+Deno.test("reopens styles and hyperlinks on every line", async () =>
+    assertEquals(
+        await sgrToString("\x1B]8;;https://example.com\x07\x1B[1mfoo\nbar\x1B[m\x1B]8;;\x07", {
+            lines: true,
+        }),
+        '<span id="L1" class="sgrp-line"><a href="https://example.com">' +
+            '<span style="font-weight:bolder;">foo</span></a></span>\n' +
+            '<span id="L2" class="sgrp-line"><a href="https://example.com">' +
+            '<span style="font-weight:bolder;">bar</span></a></span>',
+    ));
+
+Deno.test("adds line numbers and custom line classes", async () =>
+    assertEquals(
+        await sgrToString("foo\nbar", {
+            lines: true,
+            lineNumbers: true,
+            lineIdPrefix: "log-",
+            lineClass: (n) => n === 2 ? "highlighted" : "",
+            styleMode: "class",
+        }),
+        '<span id="log-1" class="sgrp-line">' +
+            '<a class="sgrp-line-number" href="#log-1">1</a>foo</span>\n' +
+            '<span id="log-2" class="sgrp-line highlighted">' +
+            '<a class="sgrp-line-number" href="#log-2">2</a>bar</span>',
+    ));
+
+Deno.test("strips escape sequences", async () =>
+    assertEquals(
+        await stripSgr(
+            "\x1B]0;title\x07<\x1B[1;31mb\x1B[m> & \x1B]8;;https://example.com\x07link\x1B]8;;\x07",
+        ),
+        "<b> & link",
+    ));
+
+Deno.test("passes through unknown sequences when stripping", async () =>
+    assertEquals(
+        await stripSgr("\x1B[?25lhello, \x1BKworld\x1B[1"),
+        "\x1B[?25lhello, \x1BKworld\x1B[1",
+    ));
+
+Deno.test("discards unknown sequences when stripping", async () =>
+    assertEquals(
+        await stripSgr("\x1B[?25lhello, \x1B[3mworld", { discardUnknownCsi: true }),
+        "hello, world",
+    ));
+
+Deno.test("escapes unknown sequences when stripping", async () =>
+    assertEquals(
+        await stripSgr("\x1B[?25lhello, \x1B[3mworld", { escapeControlCodes: true }),
+        "\u241B[?25lhello, world",
+    ));
+
+Deno.test("strips escape sequences in line editing mode", async () =>
+    assertEquals(
+        await stripSgr("\x1B[32m10%\r\x1B[K\x1B[1;32m100%\x1B[m\n", { lineEditing: true }),
+        "100%\n",
+    ));
+
+const plainSegmentStyle: SegmentStyle = {
+    bold: false,
+    faint: false,
+    italic: false,
+    underline: "",
+    strikethrough: false,
+    inverse: false,
+    concealed: false,
+    color: "",
+    backgroundColor: "",
+    underlineColor: "",
+};
+
+Deno.test("converts to segments", async () =>
+    assertEquals(
+        await sgrToSegments(
+            "hello, \x1B[1;4:3;31;48;2;0;0;255;58;5;9mworld\x1B[0m! " +
+                "\x1B]8;;https://example.com\x07\x1B[7mlink\x1B]8;;\x07",
+        ),
+        [
+            { text: "hello, ", style: plainSegmentStyle, hyperlink: "" },
+            {
+                text: "world",
+                style: {
+                    ...plainSegmentStyle,
+                    bold: true,
+                    underline: "curly",
+                    color: "#c50f1f",
+                    backgroundColor: "rgb(0,0,255)",
+                    underlineColor: "#e74856",
+                },
+                hyperlink: "",
+            },
+            { text: "! ", style: plainSegmentStyle, hyperlink: "" },
+            {
+                text: "link",
+                style: {
+                    ...plainSegmentStyle,
+                    inverse: true,
+                    color: "#0c0c0c",
+                    backgroundColor: "#cccccc",
+                },
+                hyperlink: "https://example.com",
+            },
+        ],
+    ));
+
+Deno.test("merges segments with the same style", async () =>
+    assertEquals(
+        await sgrToSegments("\x1B[1mhello\x1B[22;1m, \x1B[2;1mworld"),
+        [{ text: "hello, world", style: { ...plainSegmentStyle, bold: true }, hyperlink: "" }],
+    ));
+
+class MarkdownRenderer implements Renderer {
+    parts: string[] = [];
+    flushes = 0;
+    finalized = false;
+
+    onText(text: string): void {
+        this.parts.push(text);
+    }
+
+    onStyleChange(previous: Readonly<SegmentStyle>, next: Readonly<SegmentStyle>): void {
+        if (previous.italic && !next.italic) this.parts.push("_");
+        if (previous.bold && !next.bold) this.parts.push("**");
+        if (!previous.italic && next.italic) this.parts.push("_");
+        if (!previous.bold && next.bold) this.parts.push("**");
+    }
+
+    onHyperlinkChange(previous: string, next: string): void {
+        if (previous !== "") this.parts.push(`](${previous})`);
+        if (next !== "") this.parts.push("[");
+    }
+
+    onFlush(): void {
+        ++this.flushes;
+    }
+
+    onFinalize(): void {
+        this.finalized = true;
+    }
+}
+
+Deno.test("drives custom renderers", async () => {
+    const renderer = new MarkdownRenderer();
+    await sgrToRenderer(
+        "hello, \x1B[1mworld\x1B[3m!\x1B[22;23m see \x1B]8;;https://example.com\x07docs\x1B]8;;\x07",
+        renderer,
+    );
+    assertEquals(
+        renderer.parts.join(""),
+        "hello, **world_!_** see [docs](https://example.com)",
+    );
+    assertEquals(renderer.flushes > 0, true);
+    assertEquals(renderer.finalized, true);
+});
+
+Deno.test("keeps styles unique with many distinct styles", async () => {
+    let input = "";
+    for (let i = 0; i < 5000; ++i) {
+        input += `\x1B[38;2;0;${i >> 8};${i & 255}m${i % 10}\x1B[1m!\x1B[22m${i % 10}`;
+    }
+
+    const spans = [...(await sgrToString(input)).matchAll(/<span ([^>]*)>[^<]*<\/span>/g)];
+    assertEquals(spans.length, 15000);
+    assertEquals(spans.filter((span, i) => i > 0 && span[1] === spans[i - 1][1]), []);
+});
+
+async function decode(chunks: number[][], options: Options = {}): Promise<string> {
+    const source = ReadableStream.from(chunks.map((c) => new Uint8Array(c)));
+    return await sgrToString(source.pipeThrough(new SGRByteDecoder(options).toStream()), options);
+}
+
+Deno.test("decodes UTF-8 bytes", async () =>
+    assertEquals(
+        await decode([[0x7A, 0xC3, 0xB3, 0xC5, 0x82, 0xE2, 0x82, 0xAC, 0xF0, 0x9F, 0x98, 0x80]]),
+        "z\u00F3\u0142\u20AC\u{1F600}",
+    ));
+
+Deno.test("decodes UTF-8 sequences split between chunks", async () =>
+    assertEquals(
+        await decode([[0x61, 0xE2], [0x82], [0xAC, 0xF0, 0x9F], [0x98, 0x80, 0x62]]),
+        "a\u20AC\u{1F600}b",
+    ));
+
+Deno.test("decodes 8-bit C1 control codes", async () =>
+    assertEquals(
+        await decode([[0x9B, 0x31, 0x6D, 0x68, 0x69, 0xC2, 0x9B], [
+            0x6D,
+            0x9D,
+            0x30,
+            0x3B,
+            0x74,
+            0x9C,
+        ]]),
+        '<span style="font-weight:bolder;">hi</span>',
+    ));
+
+Deno.test("converts NEL and discards other 8-bit C1 control codes", async () =>
+    assertEquals(
+        await decode([[0x61, 0x85, 0x62, 0xC2, 0x85, 0x63, 0x84, 0x64, 0xC2, 0x9A, 0x65]]),
+        "a\nb\ncde",
+    ));
+
+Deno.test("replaces invalid UTF-8", async () =>
+    assertEquals(
+        await decode([[0x61, 0xFF, 0x62, 0xE2, 0x82, 0x63, 0xC0, 0xAF, 0xED, 0xA0, 0xBF], [0xE2]]),
+        "a\uFFFDb\uFFFDc\uFFFD\uFFFD\uFFFD\uFFFD\uFFFD\uFFFD",
+    ));
+
+Deno.test("decodes invalid UTF-8 as Latin-1", async () =>
+    assertEquals(
+        await decode([[0x61, 0xFF, 0x62, 0xE9, 0x63, 0xE2, 0x82], [0x64]], {
+            invalidUtf8: "latin1",
+        }),
+        "a\u00FFb\u00E9c\u00E2\uFFFDd",
+    ));
+
+Deno.test("replaces C1 control bytes when decoding invalid UTF-8 as Latin-1", async () =>
+    assertEquals(
+        await decode([[0x61, 0xE2, 0x9B, 0x32, 0x4A, 0x62]], { invalidUtf8: "latin1" }),
+        "a\u00E2\uFFFD2Jb",
+    ));
+
+function createViewer(options: Options = {}): [SGRLogViewer, FakeElement] {
+    const container = new FakeElement("div");
+    return [new SGRLogViewer(container as unknown as HTMLElement, options), container];
+}
+
+const renderedRows = (container: FakeElement) => container.childNodes[0].childNodes[0].childNodes;
+
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const numberedLines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `\x1B[3${i % 8}mline ${i + 1}\x1B[m\n`).join("");
+
+Deno.test("renders visible rows of the log viewer", async () => {
+    const [viewer, container] = createViewer({ rowHeight: 20 });
+    viewer.write(numberedLines(1000));
+    await nextTick();
+
+    // Follows the output - the last 5 visible rows and 8 overscan rows are rendered
+    assertEquals(viewer.lineCount, 1000);
+    assertEquals(container.scrollTop, 19900);
+    let rows = renderedRows(container);
+    assertEquals(rows.length, 13);
+    assertEquals(rows[0].textContent, "line 988");
+    assertEquals(rows[12].textContent, "line 1000");
+    assertEquals((container.childNodes[0] as FakeElement).style.height, "20000px");
+
+    viewer.scrollToLine(100);
+    rows = renderedRows(container);
+    assertEquals(container.scrollTop, 1980);
+    assertEquals(rows.length, 21);
+    assertEquals(rows[0].textContent, "line 92");
+    assertEquals(rows[20].textContent, "line 112");
+
+    container.scrollTop = 0;
+    container.listeners.get("scroll")!();
+    await nextTick();
+    rows = renderedRows(container);
+    assertEquals(rows.length, 13);
+    assertEquals(rows[0].textContent, "line 1");
+
+    // The scroll position is kept when not following the output
+    viewer.write(numberedLines(10));
+    await nextTick();
+    assertEquals(viewer.lineCount, 1010);
+    assertEquals(container.scrollTop, 0);
+});
+
+Deno.test("destroys the log viewer", async () => {
+    const [viewer, container] = createViewer({ rowHeight: 20 });
+    viewer.write(numberedLines(10));
+    await nextTick();
+    assertEquals(container.listeners.has("scroll"), true);
+    assertEquals(container.childNodes.length, 1);
+
+    viewer.destroy();
+    assertEquals(container.listeners.has("scroll"), false);
+    assertEquals(container.childNodes.length, 0);
+});
+
+Deno.test("measures rows of the log viewer once visible", async () => {
+    fakeLayout.rowHeight = 0;
+    fakeLayout.measurements = 0;
+    try {
+        const [viewer, container] = createViewer();
+        container.clientHeight = 0;
+        viewer.write(numberedLines(100));
+        await nextTick();
+        viewer.render();
+        viewer.scrollToLine(50);
+        assertEquals(fakeLayout.measurements, 1);
+
+        fakeLayout.rowHeight = 25;
+        container.clientHeight = 100;
+        viewer.scrollToLine(50);
+        viewer.render();
+        assertEquals(fakeLayout.measurements, 2);
+        assertEquals(container.scrollTop, 49 * 25);
+        assertEquals(renderedRows(container)[0].textContent, "line 42");
+    } finally {
+        fakeLayout.rowHeight = 20;
+    }
+});
+
+Deno.test("keeps surrogate pairs within a single text node", async () => {
+    const text = "ab\u{1F600}c\u{1F600}\u{1F601}";
+    for (const batchSize of [1, 3]) {
+        const element = new FakeElement("pre");
+        const sink = new SGRToElementSink(element as unknown as HTMLElement, { batchSize });
+        await sink.write(text);
+        sink.close();
+
+        assertEquals(element.textContent, text);
+        assertEquals(sink.processed, text.length);
+        for (const node of element.childNodes) {
+            assertEquals((node as FakeText).data.isWellFormed(), true);
+        }
+    }
+});